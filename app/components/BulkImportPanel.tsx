@@ -0,0 +1,84 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import { ImportReport } from "../../utils/scriptImport";
+import styles from "../page.module.css";
+
+type BulkImportPanelProps = {
+  report: ImportReport | null;
+  busy: boolean;
+  onImport: (files: File[]) => void;
+  onDismissReport: () => void;
+};
+
+const assetKindLabels = { image: "la imagen", audio: "el audio" };
+
+export default function BulkImportPanel({
+  report,
+  busy,
+  onImport,
+  onDismissReport
+}: BulkImportPanelProps) {
+  const handleFiles = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length > 0) {
+      onImport(files);
+    }
+  };
+
+  return (
+    <div className={styles.bulkImport}>
+      <div className={styles.panelTitle}>Importación masiva</div>
+      <span className={styles.status}>
+        Varias imágenes o clips crean una escena por archivo en orden de nombre. Incluye un
+        guion .csv, .json o .md para asignar diálogos, duraciones y audios.
+      </span>
+      <label className={styles.optionBox}>
+        Archivos
+        <input
+          type="file"
+          multiple
+          accept="image/*,video/*,audio/*,.csv,.json,.md,.markdown"
+          className={styles.input}
+          onChange={handleFiles}
+          disabled={busy}
+        />
+      </label>
+      <label className={styles.optionBox}>
+        Carpeta
+        <input
+          type="file"
+          multiple
+          ref={(input) => input?.setAttribute("webkitdirectory", "")}
+          className={styles.input}
+          onChange={handleFiles}
+          disabled={busy}
+        />
+      </label>
+      {busy && <span className={styles.status}>Importando escenas…</span>}
+      {report && (
+        <div className={styles.importReport}>
+          <span>
+            {report.created} escenas creadas desde {report.source}.
+          </span>
+          {report.missing.length > 0 && (
+            <ul>
+              {report.missing.map((asset) => (
+                <li key={`${asset.scene}-${asset.kind}`} className={styles.statusError}>
+                  Escena {asset.scene}: falta {assetKindLabels[asset.kind]} “{asset.name}”
+                </li>
+              ))}
+            </ul>
+          )}
+          {report.unused.length > 0 && (
+            <span className={styles.status}>Sin usar: {report.unused.join(", ")}</span>
+          )}
+          <button className={styles.buttonGhost} onClick={onDismissReport}>
+            Cerrar informe
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import {
+  captionBackgroundOptions,
+  captionPositionOptions,
+  fontFamilyOptions
+} from "../../utils/captions";
+import {
+  CaptionBackground,
+  CaptionPosition,
+  CaptionStyle,
+  ProjectFont
+} from "../../utils/types";
+import styles from "../page.module.css";
+
+type CaptionStyleEditorProps = {
+  style: CaptionStyle;
+  fonts: ProjectFont[];
+  onChange: (changes: Partial<CaptionStyle>) => void;
+  onFontUpload: (file: File) => void;
+};
+
+const alignOptions: { value: CanvasTextAlign; label: string }[] = [
+  { value: "left", label: "Izquierda" },
+  { value: "center", label: "Centro" },
+  { value: "right", label: "Derecha" }
+];
+
+export default function CaptionStyleEditor({
+  style,
+  fonts,
+  onChange,
+  onFontUpload
+}: CaptionStyleEditorProps) {
+  const families = [...fonts.map((font) => font.family), ...fontFamilyOptions];
+
+  const handleFontFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onFontUpload(file);
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <div className={styles.optionsGrid}>
+      <div className={styles.optionBox}>
+        <label>Fuente</label>
+        <select
+          value={style.fontFamily}
+          onChange={(event) => onChange({ fontFamily: event.target.value })}
+        >
+          {families.map((family) => (
+            <option key={family} value={family}>
+              {family}
+            </option>
+          ))}
+        </select>
+        <input
+          type="file"
+          accept=".ttf,.otf,.woff,.woff2,font/*"
+          className={styles.input}
+          onChange={handleFontFile}
+        />
+      </div>
+      <div className={styles.optionBox}>
+        <label>Tamaño y peso</label>
+        <div className={styles.rangeRow}>
+          <span>{style.fontSize.toFixed(1)}%</span>
+          <input
+            type="range"
+            min={1}
+            max={8}
+            step={0.1}
+            value={style.fontSize}
+            onChange={(event) => onChange({ fontSize: Number(event.target.value) })}
+            style={{ flex: 1 }}
+          />
+        </div>
+        <select
+          value={style.fontWeight}
+          onChange={(event) => onChange({ fontWeight: Number(event.target.value) })}
+        >
+          {[300, 400, 500, 600, 700, 800, 900].map((weight) => (
+            <option key={weight} value={weight}>
+              {weight}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className={styles.optionBox}>
+        <label>Color del texto</label>
+        <input
+          type="color"
+          value={style.color}
+          onChange={(event) => onChange({ color: event.target.value })}
+        />
+      </div>
+      <div className={styles.optionBox}>
+        <label>Contorno</label>
+        <div className={styles.rangeRow}>
+          <input
+            type="color"
+            value={style.strokeColor}
+            onChange={(event) => onChange({ strokeColor: event.target.value })}
+          />
+          <input
+            type="range"
+            min={0}
+            max={30}
+            step={1}
+            value={style.strokeWidth}
+            onChange={(event) => onChange({ strokeWidth: Number(event.target.value) })}
+            style={{ flex: 1 }}
+          />
+        </div>
+      </div>
+      <div className={styles.optionBox}>
+        <label>Sombra</label>
+        <div className={styles.rangeRow}>
+          <input
+            type="color"
+            value={style.shadowColor}
+            onChange={(event) => onChange({ shadowColor: event.target.value })}
+          />
+          <input
+            type="range"
+            min={0}
+            max={60}
+            step={1}
+            value={style.shadowBlur}
+            onChange={(event) => onChange({ shadowBlur: Number(event.target.value) })}
+            style={{ flex: 1 }}
+          />
+        </div>
+      </div>
+      <div className={styles.optionBox}>
+        <label>Fondo</label>
+        <select
+          value={style.background}
+          onChange={(event) =>
+            onChange({ background: event.target.value as CaptionBackground })
+          }
+        >
+          {captionBackgroundOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {style.background !== "none" && (
+          <div className={styles.rangeRow}>
+            <input
+              type="color"
+              value={style.backgroundColor}
+              onChange={(event) => onChange({ backgroundColor: event.target.value })}
+            />
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={style.backgroundOpacity}
+              onChange={(event) =>
+                onChange({ backgroundOpacity: Number(event.target.value) })
+              }
+              style={{ flex: 1 }}
+            />
+          </div>
+        )}
+      </div>
+      <div className={styles.optionBox}>
+        <label>Alineación</label>
+        <select
+          value={style.align}
+          onChange={(event) =>
+            onChange({ align: event.target.value as CanvasTextAlign })
+          }
+        >
+          {alignOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className={styles.optionBox}>
+        <label>Posición</label>
+        <select
+          value={style.position}
+          onChange={(event) =>
+            onChange({ position: event.target.value as CaptionPosition })
+          }
+        >
+          {captionPositionOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {style.position === "custom" && (
+          <div className={styles.rangeRow}>
+            <span>{Math.round(style.offsetY * 100)}%</span>
+            <input
+              type="range"
+              min={0.05}
+              max={0.95}
+              step={0.01}
+              value={style.offsetY}
+              onChange={(event) => onChange({ offsetY: Number(event.target.value) })}
+              style={{ flex: 1 }}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
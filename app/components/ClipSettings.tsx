@@ -0,0 +1,80 @@
+"use client";
+
+import { clipAudioOptions, clipLength } from "../../utils/clips";
+import { ClipAudioMode, SceneClip } from "../../utils/types";
+import styles from "../page.module.css";
+
+type ClipSettingsProps = {
+  clip: SceneClip;
+  onChange: (changes: Partial<SceneClip>) => void;
+};
+
+const MIN_CLIP_LENGTH = 0.1;
+
+export default function ClipSettings({ clip, onChange }: ClipSettingsProps) {
+  return (
+    <div className={styles.optionsGrid}>
+      <div className={styles.optionBox}>
+        <label>Recorte (s)</label>
+        <div className={styles.rangeRow}>
+          <input
+            type="number"
+            className={styles.input}
+            min={0}
+            max={clip.trimEnd - MIN_CLIP_LENGTH}
+            step={0.1}
+            value={Number(clip.trimStart.toFixed(2))}
+            onChange={(event) =>
+              onChange({
+                trimStart: Math.min(
+                  clip.trimEnd - MIN_CLIP_LENGTH,
+                  Math.max(0, Number(event.target.value))
+                )
+              })
+            }
+          />
+          <input
+            type="number"
+            className={styles.input}
+            min={clip.trimStart + MIN_CLIP_LENGTH}
+            max={clip.duration}
+            step={0.1}
+            value={Number(clip.trimEnd.toFixed(2))}
+            onChange={(event) =>
+              onChange({
+                trimEnd: Math.max(
+                  clip.trimStart + MIN_CLIP_LENGTH,
+                  Math.min(clip.duration, Number(event.target.value))
+                )
+              })
+            }
+          />
+        </div>
+        <span className={styles.status}>
+          Usa {clipLength(clip).toFixed(1)}s de {clip.duration.toFixed(1)}s
+        </span>
+      </div>
+      <div className={styles.optionBox}>
+        <label>Audio del clip</label>
+        <select
+          value={clip.audio}
+          onChange={(event) => onChange({ audio: event.target.value as ClipAudioMode })}
+        >
+          {clipAudioOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <label className={styles.status}>
+          <input
+            type="checkbox"
+            checked={clip.loop}
+            onChange={(event) => onChange({ loop: event.target.checked })}
+          />{" "}
+          Repetir en bucle si la escena dura más
+        </label>
+      </div>
+    </div>
+  );
+}
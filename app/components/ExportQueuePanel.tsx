@@ -0,0 +1,86 @@
+"use client";
+
+import { CanvasPreset, ExportJob } from "../../utils/types";
+import styles from "../page.module.css";
+
+type ExportQueuePanelProps = {
+  presets: CanvasPreset[];
+  queued: string[];
+  jobs: ExportJob[];
+  disabled: boolean;
+  onToggle: (label: string, queued: boolean) => void;
+  onStart: () => void;
+};
+
+const jobStatus = (job: ExportJob) => {
+  switch (job.status) {
+    case "pending":
+      return "En cola";
+    case "rendering":
+      return `${Math.round(job.progress * 100)}%`;
+    case "done":
+      return "Listo";
+    default:
+      return job.error ?? "Falló";
+  }
+};
+
+export default function ExportQueuePanel({
+  presets,
+  queued,
+  jobs,
+  disabled,
+  onToggle,
+  onStart
+}: ExportQueuePanelProps) {
+  return (
+    <div className={styles.field}>
+      <label>Exportar varios formatos</label>
+      <div className={styles.inlineActions}>
+        {presets.map((preset) => (
+          <label key={preset.label} className={styles.status}>
+            <input
+              type="checkbox"
+              checked={queued.includes(preset.label)}
+              disabled={disabled}
+              onChange={(event) => onToggle(preset.label, event.target.checked)}
+            />{" "}
+            {preset.label} ({preset.width}×{preset.height})
+          </label>
+        ))}
+      </div>
+      <div className={styles.inlineActions}>
+        <button
+          className={styles.buttonGhost}
+          onClick={onStart}
+          disabled={disabled || queued.length === 0}
+        >
+          {queued.length > 1 ? `Exportar ${queued.length} formatos` : "Exportar formato"}
+        </button>
+      </div>
+      {jobs.length > 0 && (
+        <ul className={styles.exportQueue}>
+          {jobs.map((job) => (
+            <li key={job.id} className={styles.exportJob}>
+              <span>
+                {job.preset.label} ({job.preset.width}×{job.preset.height})
+              </span>
+              <progress value={job.progress} max={1} />
+              {job.url ? (
+                <a
+                  className={styles.buttonGhost}
+                  href={job.url}
+                  download={`video-ia-${job.preset.width}x${job.preset.height}.${job.format}`}
+                >
+                  Descargar .{job.format}
+                </a>
+              ) : (
+                <span className={styles.status}>{jobStatus(job)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
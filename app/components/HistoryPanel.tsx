@@ -0,0 +1,71 @@
+"use client";
+
+import clsx from "clsx";
+import { ProjectHistory } from "../../utils/history";
+import styles from "../page.module.css";
+
+type HistoryPanelProps = {
+  history: ProjectHistory;
+  onTravel: (steps: number) => void;
+};
+
+export default function HistoryPanel({ history, onTravel }: HistoryPanelProps) {
+  const { past, future } = history;
+
+  return (
+    <div className={styles.historyPanel}>
+      <div className={styles.panelTitle}>Historial</div>
+      <div className={styles.inlineActions}>
+        <button
+          className={styles.buttonGhost}
+          onClick={() => onTravel(-1)}
+          disabled={past.length === 0}
+          title="Ctrl+Z"
+        >
+          Deshacer
+        </button>
+        <button
+          className={styles.buttonGhost}
+          onClick={() => onTravel(1)}
+          disabled={future.length === 0}
+          title="Ctrl+Shift+Z"
+        >
+          Rehacer
+        </button>
+      </div>
+      <ol className={styles.historyList}>
+        <li>
+          <button
+            className={clsx(styles.historyItem, past.length === 0 && styles.historyItemActive)}
+            onClick={() => onTravel(-past.length)}
+          >
+            Estado inicial
+          </button>
+        </li>
+        {past.map((entry, index) => (
+          <li key={entry.id}>
+            <button
+              className={clsx(
+                styles.historyItem,
+                index === past.length - 1 && styles.historyItemActive
+              )}
+              onClick={() => onTravel(index - (past.length - 1))}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+        {future.map((entry, index) => (
+          <li key={entry.id}>
+            <button
+              className={clsx(styles.historyItem, styles.historyItemUndone)}
+              onClick={() => onTravel(index + 1)}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
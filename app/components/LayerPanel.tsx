@@ -0,0 +1,274 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import clsx from "clsx";
+import { fontFamilyOptions } from "../../utils/captions";
+import { LayerChanges, sortLayers } from "../../utils/layers";
+import { SceneLayer } from "../../utils/types";
+import styles from "../page.module.css";
+
+type LayerPropertiesProps = {
+  layer: SceneLayer;
+  fontFamilies: string[];
+  showTiming?: boolean;
+  onChange: (changes: LayerChanges) => void;
+};
+
+type LayerPanelProps = {
+  layers: SceneLayer[];
+  selectedLayerId: string | null;
+  fontFamilies: string[];
+  onSelect: (layerId: string | null) => void;
+  onChange: (layerId: string, changes: LayerChanges) => void;
+  onRemove: (layerId: string) => void;
+  onReorder: (layerId: string, direction: 1 | -1) => void;
+  onAddImage: (file: File) => void;
+  onAddText: () => void;
+  onAddShape: () => void;
+};
+
+const layerKindLabels: Record<SceneLayer["kind"], string> = {
+  image: "Imagen",
+  text: "Texto",
+  shape: "Forma"
+};
+
+export function LayerProperties({
+  layer,
+  fontFamilies,
+  showTiming = true,
+  onChange
+}: LayerPropertiesProps) {
+  return (
+    <div className={styles.optionsGrid}>
+      <div className={styles.optionBox}>
+        <label>Escala</label>
+        <input
+          type="range"
+          min={0.1}
+          max={4}
+          step={0.05}
+          value={layer.scale}
+          onChange={(event) => onChange({ scale: Number(event.target.value) })}
+        />
+      </div>
+      <div className={styles.optionBox}>
+        <label>Rotación ({Math.round(layer.rotation)}°)</label>
+        <input
+          type="range"
+          min={-180}
+          max={180}
+          step={1}
+          value={layer.rotation}
+          onChange={(event) => onChange({ rotation: Number(event.target.value) })}
+        />
+      </div>
+      <div className={styles.optionBox}>
+        <label>Opacidad</label>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={layer.opacity}
+          onChange={(event) => onChange({ opacity: Number(event.target.value) })}
+        />
+      </div>
+      {showTiming && (
+        <div className={styles.optionBox}>
+          <label>Entrada / salida (s)</label>
+          <div className={styles.rangeRow}>
+            <input
+              type="number"
+              className={styles.input}
+              min={0}
+              step={0.1}
+              value={layer.enter}
+              onChange={(event) => onChange({ enter: Number(event.target.value) })}
+            />
+            <input
+              type="number"
+              className={styles.input}
+              min={0}
+              step={0.1}
+              placeholder="Fin"
+              value={layer.exit ?? ""}
+              onChange={(event) =>
+                onChange({
+                  exit: event.target.value === "" ? undefined : Number(event.target.value)
+                })
+              }
+            />
+          </div>
+        </div>
+      )}
+      {layer.kind === "text" && (
+        <>
+          <div className={styles.optionBox}>
+            <label>Texto</label>
+            <textarea
+              className={clsx(styles.input, styles.textarea)}
+              value={layer.text}
+              onChange={(event) => onChange({ text: event.target.value })}
+            />
+          </div>
+          <div className={styles.optionBox}>
+            <label>Fuente</label>
+            <select
+              value={layer.fontFamily}
+              onChange={(event) => onChange({ fontFamily: event.target.value })}
+            >
+              {fontFamilies.map((family) => (
+                <option key={family} value={family}>
+                  {family}
+                </option>
+              ))}
+            </select>
+            <div className={styles.rangeRow}>
+              <input
+                type="color"
+                value={layer.color}
+                onChange={(event) => onChange({ color: event.target.value })}
+              />
+              <select
+                value={layer.fontWeight}
+                onChange={(event) => onChange({ fontWeight: Number(event.target.value) })}
+              >
+                {[400, 600, 700, 900].map((weight) => (
+                  <option key={weight} value={weight}>
+                    {weight}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </>
+      )}
+      {layer.kind === "shape" && (
+        <div className={styles.optionBox}>
+          <label>Forma</label>
+          <select
+            value={layer.shape}
+            onChange={(event) =>
+              onChange({ shape: event.target.value as "rect" | "ellipse" })
+            }
+          >
+            <option value="rect">Rectángulo</option>
+            <option value="ellipse">Elipse</option>
+          </select>
+          <div className={styles.rangeRow}>
+            <input
+              type="color"
+              value={layer.color}
+              onChange={(event) => onChange({ color: event.target.value })}
+            />
+            <input
+              type="range"
+              min={0.2}
+              max={5}
+              step={0.05}
+              value={layer.aspect}
+              onChange={(event) => onChange({ aspect: Number(event.target.value) })}
+              aria-label="Proporción"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function LayerPanel({
+  layers,
+  selectedLayerId,
+  fontFamilies,
+  onSelect,
+  onChange,
+  onRemove,
+  onReorder,
+  onAddImage,
+  onAddText,
+  onAddShape
+}: LayerPanelProps) {
+  const ordered = sortLayers(layers).reverse();
+  const selectedLayer = layers.find((layer) => layer.id === selectedLayerId) ?? null;
+
+  const handleImageFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onAddImage(file);
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <>
+      <div className={styles.inlineActions}>
+        <label className={styles.buttonGhost}>
+          Añadir imagen o logo
+          <input type="file" accept="image/*" hidden onChange={handleImageFile} />
+        </label>
+        <button className={styles.buttonGhost} onClick={onAddText}>
+          Añadir texto
+        </button>
+        <button className={styles.buttonGhost} onClick={onAddShape}>
+          Añadir forma
+        </button>
+      </div>
+      {ordered.length > 0 && (
+        <div className={styles.layerList}>
+          {ordered.map((layer, index) => (
+            <div
+              key={layer.id}
+              className={clsx(
+                styles.layerRow,
+                layer.id === selectedLayerId && styles.sceneCardActive
+              )}
+            >
+              <button
+                className={styles.buttonGhost}
+                onClick={() => onSelect(layer.id === selectedLayerId ? null : layer.id)}
+              >
+                {layerKindLabels[layer.kind]} • {layer.name}
+              </button>
+              <button
+                className={styles.buttonGhost}
+                onClick={() => onReorder(layer.id, 1)}
+                disabled={index === 0}
+                aria-label="Subir capa"
+              >
+                ↑
+              </button>
+              <button
+                className={styles.buttonGhost}
+                onClick={() => onReorder(layer.id, -1)}
+                disabled={index === ordered.length - 1}
+                aria-label="Bajar capa"
+              >
+                ↓
+              </button>
+              <button
+                className={clsx(styles.buttonGhost, styles.danger)}
+                onClick={() => onRemove(layer.id)}
+              >
+                Quitar
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {selectedLayer && (
+        <>
+          <span className={styles.status}>
+            Arrastra la capa en la vista previa para moverla.
+          </span>
+          <LayerProperties
+            layer={selectedLayer}
+            fontFamilies={fontFamilies}
+            onChange={(changes) => onChange(selectedLayer.id, changes)}
+          />
+        </>
+      )}
+    </>
+  );
+}
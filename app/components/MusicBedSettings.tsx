@@ -0,0 +1,123 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import clsx from "clsx";
+import { MusicBed } from "../../utils/types";
+import styles from "../page.module.css";
+
+type MusicBedSettingsProps = {
+  music?: MusicBed;
+  onUpload: (file: File) => void;
+  onChange: (changes: Partial<MusicBed>) => void;
+  onRemove: () => void;
+};
+
+export default function MusicBedSettings({
+  music,
+  onUpload,
+  onChange,
+  onRemove
+}: MusicBedSettingsProps) {
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onUpload(file);
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <>
+      <div className={styles.inlineActions}>
+        <input type="file" accept="audio/*" className={styles.input} onChange={handleFile} />
+        {music && (
+          <button className={clsx(styles.buttonGhost, styles.danger)} onClick={onRemove}>
+            Quitar música
+          </button>
+        )}
+      </div>
+      {music && (
+        <>
+          <span className={styles.status}>
+            Música: {music.name} ({music.duration.toFixed(1)}s)
+          </span>
+          <div className={styles.optionsGrid}>
+            <div className={styles.optionBox}>
+              <label>Volumen ({Math.round(music.volume * 100)}%)</label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={music.volume}
+                onChange={(event) => onChange({ volume: Number(event.target.value) })}
+              />
+            </div>
+            <div className={styles.optionBox}>
+              <label>Bajar bajo la voz ({Math.round(music.duckLevel * 100)}%)</label>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={music.duckLevel}
+                onChange={(event) => onChange({ duckLevel: Number(event.target.value) })}
+              />
+            </div>
+            <div className={styles.optionBox}>
+              <label>Fundido entrada / salida (s)</label>
+              <div className={styles.rangeRow}>
+                <input
+                  type="number"
+                  className={styles.input}
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  value={music.fadeIn}
+                  onChange={(event) =>
+                    onChange({ fadeIn: Math.max(0, Number(event.target.value)) })
+                  }
+                />
+                <input
+                  type="number"
+                  className={styles.input}
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  value={music.fadeOut}
+                  onChange={(event) =>
+                    onChange({ fadeOut: Math.max(0, Number(event.target.value)) })
+                  }
+                />
+              </div>
+            </div>
+            <div className={styles.optionBox}>
+              <label>Empezar en (s)</label>
+              <input
+                type="number"
+                className={styles.input}
+                min={0}
+                max={music.duration}
+                step={0.5}
+                value={music.offset}
+                onChange={(event) =>
+                  onChange({
+                    offset: Math.min(music.duration, Math.max(0, Number(event.target.value)))
+                  })
+                }
+              />
+              <label className={styles.status}>
+                <input
+                  type="checkbox"
+                  checked={music.loop}
+                  onChange={(event) => onChange({ loop: event.target.checked })}
+                />{" "}
+                Repetir hasta cubrir el video
+              </label>
+            </div>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import {
+  TTS_PITCH_MAX,
+  TTS_PITCH_MIN,
+  TTS_RATE_MAX,
+  TTS_RATE_MIN,
+  getTtsProvider,
+  listTtsProviders
+} from "../../utils/tts";
+import { SceneNarration } from "../../utils/types";
+import styles from "../page.module.css";
+
+type NarrationSettingsProps = {
+  narration: SceneNarration;
+  busy: boolean;
+  canGenerate: boolean;
+  onChange: (changes: Partial<SceneNarration>) => void;
+  onGenerate: () => void;
+};
+
+export default function NarrationSettings({
+  narration,
+  busy,
+  canGenerate,
+  onChange,
+  onGenerate
+}: NarrationSettingsProps) {
+  const providers = listTtsProviders();
+  const voices = providers.find(({ id }) => id === narration.provider)?.voices ?? [];
+
+  return (
+    <>
+      <div className={styles.optionsGrid}>
+        <div className={styles.optionBox}>
+          <label>Voz</label>
+          {providers.length > 1 && (
+            <select
+              value={narration.provider}
+              onChange={(event) => {
+                const provider = getTtsProvider(event.target.value);
+                onChange({ provider: provider.id, voice: provider.voices[0]?.id ?? "" });
+              }}
+            >
+              {providers.map((provider) => (
+                <option key={provider.id} value={provider.id}>
+                  {provider.label}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={narration.voice}
+            onChange={(event) => onChange({ voice: event.target.value })}
+          >
+            {voices.map((voice) => (
+              <option key={voice.id} value={voice.id}>
+                {voice.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.optionBox}>
+          <label>Velocidad ({narration.rate.toFixed(2)}x)</label>
+          <input
+            type="range"
+            min={TTS_RATE_MIN}
+            max={TTS_RATE_MAX}
+            step={0.05}
+            value={narration.rate}
+            onChange={(event) => onChange({ rate: Number(event.target.value) })}
+          />
+        </div>
+        <div className={styles.optionBox}>
+          <label>Tono ({narration.pitch.toFixed(2)})</label>
+          <input
+            type="range"
+            min={TTS_PITCH_MIN}
+            max={TTS_PITCH_MAX}
+            step={0.05}
+            value={narration.pitch}
+            onChange={(event) => onChange({ pitch: Number(event.target.value) })}
+          />
+        </div>
+      </div>
+      <div className={styles.inlineActions}>
+        <button
+          className={styles.buttonGhost}
+          onClick={onGenerate}
+          disabled={busy || !canGenerate}
+        >
+          {busy ? "Generando voz…" : "Generar voz"}
+        </button>
+        {narration.generatedKey && (
+          <span className={styles.status}>
+            La voz se regenera al cambiar el diálogo o los ajustes.
+          </span>
+        )}
+      </div>
+    </>
+  );
+}
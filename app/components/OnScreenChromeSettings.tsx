@@ -0,0 +1,88 @@
+"use client";
+
+import {
+  chromePositionOptions,
+  progressModeOptions,
+  progressStyleOptions
+} from "../../utils/chrome";
+import { ChromePosition, OnScreenChrome, ProgressMode, ProgressStyle } from "../../utils/types";
+import styles from "../page.module.css";
+
+type OnScreenChromeSettingsProps = {
+  chrome: OnScreenChrome;
+  onChange: (changes: Partial<OnScreenChrome>) => void;
+};
+
+const overlayOptions: { key: "sceneCounter" | "chapterTitle" | "timestamp"; label: string }[] = [
+  { key: "sceneCounter", label: "Contador de escenas (3/12)" },
+  { key: "chapterTitle", label: "Título del capítulo" },
+  { key: "timestamp", label: "Tiempo transcurrido" }
+];
+
+export default function OnScreenChromeSettings({ chrome, onChange }: OnScreenChromeSettingsProps) {
+  return (
+    <>
+      <div className={styles.optionsGrid}>
+        <div className={styles.optionBox}>
+          <label>Barra de progreso</label>
+          <select
+            value={chrome.progress}
+            onChange={(event) => onChange({ progress: event.target.value as ProgressMode })}
+          >
+            {progressModeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.optionBox}>
+          <label>Estilo</label>
+          <select
+            value={chrome.progressStyle}
+            disabled={chrome.progress === "off"}
+            onChange={(event) =>
+              onChange({ progressStyle: event.target.value as ProgressStyle })
+            }
+          >
+            {progressStyleOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className={styles.optionBox}>
+          <label>Posición</label>
+          <select
+            value={chrome.position}
+            onChange={(event) => onChange({ position: event.target.value as ChromePosition })}
+          >
+            {chromePositionOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className={styles.inlineActions}>
+        {overlayOptions.map(({ key, label }) => (
+          <label key={key} className={styles.status}>
+            <input
+              type="checkbox"
+              checked={chrome[key]}
+              onChange={(event) => onChange({ [key]: event.target.checked })}
+            />{" "}
+            {label}
+          </label>
+        ))}
+      </div>
+      {chrome.chapterTitle && (
+        <span className={styles.status}>
+          El capítulo es el título de la última tarjeta marcada como inicio de capítulo.
+        </span>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import styles from "../page.module.css";
+
+type PreviewTransportProps = {
+  time: number;
+  total: number;
+  fps: number;
+  isPlaying: boolean;
+  disabled: boolean;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onStepScene: (direction: 1 | -1) => void;
+};
+
+const formatTimecode = (seconds: number) => {
+  const tenths = Math.floor(seconds * 10) / 10;
+  const mins = Math.floor(tenths / 60)
+    .toString()
+    .padStart(2, "0");
+  const secs = (tenths % 60).toFixed(1).padStart(4, "0");
+  return `${mins}:${secs}`;
+};
+
+export default function PreviewTransport({
+  time,
+  total,
+  fps,
+  isPlaying,
+  disabled,
+  onTogglePlay,
+  onSeek,
+  onStepScene
+}: PreviewTransportProps) {
+  return (
+    <div className={styles.transport}>
+      <div className={styles.inlineActions}>
+        <button
+          className={styles.buttonGhost}
+          onClick={() => onStepScene(-1)}
+          disabled={disabled}
+          aria-label="Escena anterior"
+        >
+          ⏮
+        </button>
+        <button className={styles.buttonGhost} onClick={onTogglePlay} disabled={disabled}>
+          {isPlaying ? "Pausar" : "Reproducir"}
+        </button>
+        <button
+          className={styles.buttonGhost}
+          onClick={() => onStepScene(1)}
+          disabled={disabled}
+          aria-label="Escena siguiente"
+        >
+          ⏭
+        </button>
+        <span className={styles.status}>
+          {formatTimecode(time)} / {formatTimecode(total)}
+        </span>
+      </div>
+      <input
+        type="range"
+        className={styles.scrubber}
+        min={0}
+        max={total}
+        step={1 / fps}
+        value={Math.min(time, total)}
+        disabled={disabled}
+        onChange={(event) => onSeek(Number(event.target.value))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { encodeStageLabels } from "../../utils/encoder";
+import { RenderProgress, StageTiming } from "../../utils/types";
+import styles from "../page.module.css";
+
+type RenderProgressPanelProps = {
+  progress: RenderProgress | null;
+  timings: StageTiming[];
+  onCancel: () => void;
+};
+
+const formatDuration = (seconds: number) => {
+  const rounded = Math.max(0, Math.round(seconds));
+  const mins = Math.floor(rounded / 60);
+  const secs = (rounded % 60).toString().padStart(2, "0");
+  return `${mins}:${secs}`;
+};
+
+export default function RenderProgressPanel({
+  progress,
+  timings,
+  onCancel
+}: RenderProgressPanelProps) {
+  if (progress) {
+    const { stage, scene, sceneCount, frame, totalFrames, eta } = progress;
+    const percent = totalFrames > 0 ? Math.round((frame / totalFrames) * 100) : 0;
+    return (
+      <div className={styles.renderProgress}>
+        <div className={styles.rangeRow}>
+          <span>{encodeStageLabels[stage]}</span>
+          <span>
+            Escena {scene} de {sceneCount}
+          </span>
+        </div>
+        {/* Without a frame count (nothing to draw yet) the bar stays indeterminate. */}
+        {totalFrames > 0 ? <progress value={frame} max={totalFrames} /> : <progress />}
+        <div className={styles.rangeRow}>
+          <span className={styles.status}>
+            {totalFrames > 0
+              ? `${frame} de ${totalFrames} fotogramas (${percent}%)`
+              : "Sin fotogramas que renderizar"}
+          </span>
+          <span className={styles.status}>
+            {eta === undefined ? "Calculando tiempo restante..." : `Quedan ${formatDuration(eta)}`}
+          </span>
+        </div>
+        <div className={styles.inlineActions}>
+          <button className={styles.buttonGhost} onClick={onCancel}>
+            Cancelar
+          </button>
+        </div>
+      </div>
+    );
+  }
+  if (timings.length === 0) return null;
+  const total = timings.reduce((sum, { seconds }) => sum + seconds, 0);
+  return (
+    <div className={styles.renderProgress}>
+      <div className={styles.panelTitle}>Tiempos del último render</div>
+      <ul className={styles.renderTimings}>
+        {timings.map(({ label, seconds }) => (
+          <li key={label} className={styles.rangeRow}>
+            <span>{label}</span>
+            <span>{seconds.toFixed(1)}s</span>
+          </li>
+        ))}
+        <li className={styles.rangeRow}>
+          <strong>Total</strong>
+          <strong>{total.toFixed(1)}s</strong>
+        </li>
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { FocusEvent, KeyboardEvent } from "react";
+import { FRAME_SIZE_MAX, FRAME_SIZE_MIN, clampFrameSize } from "../../utils/encoder";
+import { CanvasPreset } from "../../utils/types";
+import styles from "../page.module.css";
+
+type ResolutionSettingsProps = {
+  preset: CanvasPreset;
+  presets: CanvasPreset[];
+  onChange: (preset: CanvasPreset) => void;
+};
+
+const CUSTOM_LABEL = "Personalizado";
+
+const blurOnEnter = (event: KeyboardEvent<HTMLInputElement>) => {
+  if (event.key === "Enter") event.currentTarget.blur();
+};
+
+export default function ResolutionSettings({
+  preset,
+  presets,
+  onChange
+}: ResolutionSettingsProps) {
+  const isCustom = !presets.some(({ label }) => label === preset.label);
+
+  const commitSize = (dimension: "width" | "height", event: FocusEvent<HTMLInputElement>) => {
+    const value = Number(event.currentTarget.value);
+    const size = Number.isFinite(value) && value > 0 ? clampFrameSize(value) : preset[dimension];
+    event.currentTarget.value = String(size);
+    if (size !== preset[dimension]) {
+      onChange({ ...preset, label: CUSTOM_LABEL, [dimension]: size });
+    }
+  };
+
+  return (
+    <>
+      <select
+        value={isCustom ? CUSTOM_LABEL : preset.label}
+        onChange={(event) => {
+          const next = presets.find(({ label }) => label === event.target.value);
+          onChange(next ?? { ...preset, label: CUSTOM_LABEL });
+        }}
+      >
+        {presets.map((item) => (
+          <option key={item.label} value={item.label}>
+            {item.label}
+          </option>
+        ))}
+        <option value={CUSTOM_LABEL}>{CUSTOM_LABEL}</option>
+      </select>
+      {isCustom && (
+        <div className={styles.rangeRow}>
+          <input
+            key={`width-${preset.width}`}
+            type="number"
+            className={styles.input}
+            min={FRAME_SIZE_MIN}
+            max={FRAME_SIZE_MAX}
+            step={2}
+            defaultValue={preset.width}
+            aria-label="Ancho"
+            onBlur={(event) => commitSize("width", event)}
+            onKeyDown={blurOnEnter}
+          />
+          <span>×</span>
+          <input
+            key={`height-${preset.height}`}
+            type="number"
+            className={styles.input}
+            min={FRAME_SIZE_MIN}
+            max={FRAME_SIZE_MAX}
+            step={2}
+            defaultValue={preset.height}
+            aria-label="Alto"
+            onBlur={(event) => commitSize("height", event)}
+            onKeyDown={blurOnEnter}
+          />
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,322 @@
+"use client";
+
+import { DragEvent, PointerEvent, useRef, useState } from "react";
+import clsx from "clsx";
+import { assetUrl } from "../../utils/assets";
+import { sceneAudioLength } from "../../utils/audioEdit";
+import { sceneCues } from "../../utils/subtitles";
+import { DURATION_MAX, DURATION_MIN, TimelineEntry } from "../../utils/timeline";
+import { Scene } from "../../utils/types";
+import styles from "../page.module.css";
+
+type TimelineEditorProps = {
+  scenes: Scene[];
+  entries: TimelineEntry[];
+  total: number;
+  time: number;
+  selectedSceneId: string | null;
+  onSelect: (sceneId: string) => void;
+  onSeek: (time: number) => void;
+  onReorder: (sceneId: string, beforeSceneId: string | null) => void;
+  onDurationChange: (sceneId: string, duration: number) => void;
+  onDropFiles: (files: File[], beforeSceneId: string | null) => void;
+};
+
+type TimelineDrag = {
+  mode: "move" | "trim";
+  sceneId: string;
+  originX: number;
+  offsetX: number;
+  duration: number;
+};
+
+const ZOOM_MIN = 8;
+const ZOOM_MAX = 240;
+const ZOOM_DEFAULT = 48;
+const DRAG_THRESHOLD = 4;
+const RULER_MIN_SPACING = 64;
+const rulerSteps = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300];
+
+const formatRulerLabel = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  const label = Number.isInteger(secs)
+    ? secs.toString().padStart(2, "0")
+    : secs.toFixed(1).padStart(4, "0");
+  return `${mins}:${label}`;
+};
+
+const isFileDrag = (event: DragEvent<HTMLElement>) =>
+  Array.from(event.dataTransfer.types).includes("Files");
+
+export default function TimelineEditor({
+  scenes,
+  entries,
+  total,
+  time,
+  selectedSceneId,
+  onSelect,
+  onSeek,
+  onReorder,
+  onDurationChange,
+  onDropFiles
+}: TimelineEditorProps) {
+  const [zoom, setZoom] = useState(ZOOM_DEFAULT);
+  const [drag, setDrag] = useState<TimelineDrag | null>(null);
+  const [dropTime, setDropTime] = useState<number | null>(null);
+  const contentRef = useRef<HTMLDivElement | null>(null);
+
+  const width = Math.max(total, 1) * zoom;
+  const rulerStep =
+    rulerSteps.find((step) => step * zoom >= RULER_MIN_SPACING) ??
+    rulerSteps[rulerSteps.length - 1];
+  const ticks = Array.from(
+    { length: Math.floor(total / rulerStep) + 1 },
+    (_, index) => index * rulerStep
+  );
+
+  const timeAt = (clientX: number) => {
+    const bounds = contentRef.current?.getBoundingClientRect();
+    if (!bounds) return 0;
+    return Math.min(total, Math.max(0, (clientX - bounds.left) / zoom));
+  };
+
+  /** First scene whose midpoint lies after `at`, ignoring the one being moved. */
+  const sceneAfter = (at: number, ignoreId?: string) =>
+    entries.find(
+      (entry) => entry.scene.id !== ignoreId && entry.start + entry.duration / 2 > at
+    )?.scene.id ?? null;
+
+  const insertionTime = (beforeSceneId: string | null) =>
+    entries.find((entry) => entry.scene.id === beforeSceneId)?.start ?? total;
+
+  /** Where a moved block lands, judged by its dragged midpoint. */
+  const reorderTarget = ({ sceneId, offsetX }: TimelineDrag) => {
+    const entry = entries.find((item) => item.scene.id === sceneId);
+    if (!entry) return null;
+    return sceneAfter(entry.start + entry.duration / 2 + offsetX / zoom, sceneId);
+  };
+
+  const handleRulerPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    onSeek(timeAt(event.clientX));
+  };
+
+  const handleRulerPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    onSeek(timeAt(event.clientX));
+  };
+
+  const handleBlockPointerDown = (
+    event: PointerEvent<HTMLDivElement>,
+    entry: TimelineEntry,
+    mode: TimelineDrag["mode"]
+  ) => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({
+      mode,
+      sceneId: entry.scene.id,
+      originX: event.clientX,
+      offsetX: 0,
+      duration: entry.scene.duration
+    });
+  };
+
+  const handleBlockPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    event.stopPropagation();
+    const offsetX = event.clientX - drag.originX;
+    setDrag({ ...drag, offsetX });
+    if (drag.mode === "trim") {
+      const duration = Math.round((drag.duration + offsetX / zoom) * 10) / 10;
+      onDurationChange(drag.sceneId, Math.min(DURATION_MAX, Math.max(DURATION_MIN, duration)));
+    }
+  };
+
+  const handleBlockPointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    event.stopPropagation();
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    setDrag(null);
+    if (drag.mode !== "move") return;
+    if (Math.abs(drag.offsetX) < DRAG_THRESHOLD) {
+      onSelect(drag.sceneId);
+      return;
+    }
+    onReorder(drag.sceneId, reorderTarget(drag));
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+    setDropTime(insertionTime(sceneAfter(timeAt(event.clientX))));
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    setDropTime(null);
+    const files = Array.from(event.dataTransfer.files).filter(
+      (file) => file.type.startsWith("image/") || file.type.startsWith("video/")
+    );
+    if (files.length > 0) {
+      onDropFiles(files, sceneAfter(timeAt(event.clientX)));
+    }
+  };
+
+  const marker =
+    drag?.mode === "move" && Math.abs(drag.offsetX) >= DRAG_THRESHOLD
+      ? insertionTime(reorderTarget(drag))
+      : dropTime;
+
+  return (
+    <div className={styles.timelineEditor}>
+      <div className={styles.inlineActions}>
+        <div className={styles.panelTitle}>Línea de tiempo</div>
+        <label className={styles.status}>
+          Zoom{" "}
+          <input
+            type="range"
+            min={ZOOM_MIN}
+            max={ZOOM_MAX}
+            value={zoom}
+            onChange={(event) => setZoom(Number(event.target.value))}
+          />
+        </label>
+      </div>
+      <div
+        className={styles.timelineScroll}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDropTime(null)}
+        onDrop={handleDrop}
+      >
+        <div className={styles.timelineLaneLabels}>
+          <span />
+          <span>Imagen</span>
+          <span>Diálogo</span>
+          <span>Audio</span>
+        </div>
+        <div ref={contentRef} className={styles.timelineContent} style={{ width }}>
+          <div
+            className={styles.timelineRuler}
+            onPointerDown={handleRulerPointerDown}
+            onPointerMove={handleRulerPointerMove}
+            onPointerUp={(event) => event.currentTarget.releasePointerCapture(event.pointerId)}
+          >
+            {ticks.map((tick) => (
+              <span key={tick} className={styles.timelineTick} style={{ left: tick * zoom }}>
+                {formatRulerLabel(tick)}
+              </span>
+            ))}
+          </div>
+
+          <div className={styles.timelineLane}>
+            {entries.map((entry, entryIndex) => {
+              const moving = drag?.mode === "move" && drag.sceneId === entry.scene.id;
+              const sceneIndex = scenes.findIndex((scene) => scene.id === entry.scene.id);
+              // Entries outside `scenes` are the project intro and outro; they can't be moved.
+              const locked = sceneIndex === -1;
+              const label = locked
+                ? entryIndex === 0
+                  ? "Intro"
+                  : "Cierre"
+                : `Escena ${sceneIndex + 1}`;
+              return (
+                <div
+                  key={entry.scene.id}
+                  className={clsx(
+                    styles.timelineBlock,
+                    entry.scene.id === selectedSceneId && styles.timelineBlockActive,
+                    moving && styles.timelineBlockDragging
+                  )}
+                  style={{
+                    left: entry.start * zoom,
+                    width: entry.duration * zoom,
+                    borderColor: entry.scene.accentColor,
+                    backgroundImage: entry.scene.imageAssetId
+                      ? `url(${assetUrl(entry.scene.imageAssetId)})`
+                      : undefined,
+                    transform: moving ? `translateX(${drag.offsetX}px)` : undefined
+                  }}
+                  onPointerDown={
+                    locked ? undefined : (event) => handleBlockPointerDown(event, entry, "move")
+                  }
+                  onPointerMove={handleBlockPointerMove}
+                  onPointerUp={handleBlockPointerUp}
+                >
+                  <span>
+                    {label}
+                    {entry.scene.clip && " · Clip"}
+                    {entry.scene.titleCard && " · Tarjeta"}
+                  </span>
+                  <span>{entry.duration.toFixed(1)}s</span>
+                  {!locked && (
+                    <div
+                      className={styles.timelineTrimHandle}
+                      title="Arrastra para cambiar la duración"
+                      onPointerDown={(event) => handleBlockPointerDown(event, entry, "trim")}
+                      onPointerMove={handleBlockPointerMove}
+                      onPointerUp={handleBlockPointerUp}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className={styles.timelineLane}>
+            {entries.flatMap((entry) =>
+              sceneCues(entry.scene, entry.duration).map((cue) => (
+                <div
+                  key={`${entry.scene.id}-${cue.id}`}
+                  className={styles.timelineCue}
+                  style={{
+                    left: (entry.start + cue.start) * zoom,
+                    width: Math.max(0, Math.min(cue.end, entry.duration) - cue.start) * zoom,
+                    background: entry.scene.accentColor
+                  }}
+                  title={cue.text}
+                >
+                  {cue.text}
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className={styles.timelineLane}>
+            {entries.map((entry) => {
+              const length = Math.min(sceneAudioLength(entry.scene), entry.duration);
+              if (length <= 0) return null;
+              return (
+                <div
+                  key={entry.scene.id}
+                  className={styles.timelineAudio}
+                  style={{
+                    left: entry.start * zoom,
+                    width: length * zoom,
+                    background: entry.scene.accentColor
+                  }}
+                  title={entry.scene.audioName}
+                >
+                  {entry.scene.audioName ?? "Audio"}
+                </div>
+              );
+            })}
+          </div>
+
+          {marker !== null && (
+            <span className={styles.timelineDropMarker} style={{ left: marker * zoom }} />
+          )}
+          <span className={styles.timelinePlayhead} style={{ left: time * zoom }} />
+        </div>
+      </div>
+      {entries.length === 0 && (
+        <div className={styles.emptyState}>
+          <span>Arrastra imágenes o clips aquí para crear una escena por archivo.</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { ChangeEvent } from "react";
+import clsx from "clsx";
+import { DURATION_MAX, DURATION_MIN } from "../../utils/timeline";
+import { titleCardBackgroundOptions } from "../../utils/titleCards";
+import { Scene, TitleCard, TitleCardBackground } from "../../utils/types";
+import styles from "../page.module.css";
+
+type TitleCardSettingsProps = {
+  scene: Scene & { titleCard: TitleCard };
+  /** Intro and outro have no timeline slider of their own, so they edit the length here. */
+  showDuration?: boolean;
+  onChange: (changes: Partial<Scene>) => void;
+  onLogoUpload: (file: File) => void;
+};
+
+export default function TitleCardSettings({
+  scene,
+  showDuration = false,
+  onChange,
+  onLogoUpload
+}: TitleCardSettingsProps) {
+  const card = scene.titleCard;
+  const changeCard = (changes: Partial<TitleCard>) =>
+    onChange({ titleCard: { ...card, ...changes } });
+
+  const handleLogo = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file?.type.startsWith("image/")) {
+      onLogoUpload(file);
+    }
+    event.target.value = "";
+  };
+
+  return (
+    <>
+      <input
+        className={styles.input}
+        value={card.title}
+        placeholder="Título"
+        onChange={(event) => changeCard({ title: event.target.value })}
+        aria-label="Título de la tarjeta"
+      />
+      <input
+        className={styles.input}
+        value={card.subtitle}
+        placeholder="Subtítulo (opcional)"
+        onChange={(event) => changeCard({ subtitle: event.target.value })}
+        aria-label="Subtítulo de la tarjeta"
+      />
+      <label className={styles.status}>
+        <input
+          type="checkbox"
+          checked={Boolean(card.chapter)}
+          onChange={(event) => changeCard({ chapter: event.target.checked })}
+        />{" "}
+        Marca el inicio de un capítulo
+      </label>
+      <div className={styles.optionsGrid}>
+        <div className={styles.optionBox}>
+          <label>Fondo</label>
+          <div className={styles.rangeRow}>
+            <select
+              value={card.background}
+              onChange={(event) =>
+                changeCard({ background: event.target.value as TitleCardBackground })
+              }
+            >
+              {titleCardBackgroundOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="color"
+              value={scene.accentColor}
+              onChange={(event) => onChange({ accentColor: event.target.value })}
+              aria-label="Color de la tarjeta"
+            />
+          </div>
+        </div>
+        {showDuration && (
+          <div className={styles.optionBox}>
+            <label>Duración (s)</label>
+            <input
+              type="number"
+              className={styles.input}
+              min={DURATION_MIN}
+              max={DURATION_MAX}
+              step={0.5}
+              value={scene.duration}
+              onChange={(event) => {
+                const duration = Number(event.target.value);
+                onChange({ duration: Math.min(DURATION_MAX, Math.max(DURATION_MIN, duration)) });
+              }}
+            />
+          </div>
+        )}
+        <div className={styles.optionBox}>
+          <label>Logo (opcional)</label>
+          <input type="file" accept="image/*" className={styles.input} onChange={handleLogo} />
+          {scene.imageAssetId && (
+            <div className={styles.rangeRow}>
+              <span className={styles.status}>{scene.imageName ?? "Logo"}</span>
+              <button
+                className={clsx(styles.buttonGhost, styles.danger)}
+                onClick={() => onChange({ imageAssetId: undefined, imageName: undefined })}
+              >
+                Quitar logo
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
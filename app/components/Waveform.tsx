@@ -0,0 +1,112 @@
+"use client";
+
+import { PointerEvent, useEffect, useRef } from "react";
+import { AudioEdit } from "../../utils/types";
+import styles from "../page.module.css";
+
+type WaveformProps = {
+  peaks: Float32Array;
+  duration: number;
+  edit: AudioEdit;
+  color: string;
+  onTrimChange: (changes: Pick<AudioEdit, "trimStart"> | Pick<AudioEdit, "trimEnd">) => void;
+};
+
+const WAVEFORM_WIDTH = 640;
+const WAVEFORM_HEIGHT = 96;
+const HANDLE_GRAB = 12;
+
+export default function Waveform({ peaks, duration, edit, color, onTrimChange }: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<"trimStart" | "trimEnd" | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const { width, height } = canvas;
+    const middle = height / 2;
+    const startX = (edit.trimStart / duration) * width;
+    const endX = (edit.trimEnd / duration) * width;
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = "rgba(255, 255, 255, 0.04)";
+    ctx.fillRect(0, 0, width, height);
+
+    const barWidth = width / peaks.length;
+    peaks.forEach((peak, index) => {
+      const x = index * barWidth;
+      const inside = x >= startX && x <= endX;
+      const barHeight = Math.max(1, peak * (height - 8));
+      ctx.fillStyle = inside ? color : "rgba(255, 255, 255, 0.25)";
+      ctx.fillRect(x, middle - barHeight / 2, Math.max(1, barWidth - 1), barHeight);
+    });
+
+    ctx.fillStyle = "rgba(2, 4, 9, 0.55)";
+    ctx.fillRect(0, 0, startX, height);
+    ctx.fillRect(endX, 0, width - endX, height);
+
+    const fadeInX = startX + (edit.fadeIn / duration) * width;
+    const fadeOutX = endX - (edit.fadeOut / duration) * width;
+    ctx.strokeStyle = "rgba(248, 250, 252, 0.8)";
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.moveTo(startX, edit.fadeIn > 0 ? height : 4);
+    ctx.lineTo(fadeInX, 4);
+    ctx.lineTo(fadeOutX, 4);
+    ctx.lineTo(endX, edit.fadeOut > 0 ? height : 4);
+    ctx.stroke();
+
+    ctx.fillStyle = "#f8fafc";
+    for (const x of [startX, endX]) {
+      ctx.fillRect(x - 2, 0, 4, height);
+    }
+  }, [peaks, duration, edit, color]);
+
+  const toTime = (event: PointerEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const ratio = (event.clientX - bounds.left) / bounds.width;
+    return Math.min(duration, Math.max(0, ratio * duration));
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - bounds.left;
+    const startX = (edit.trimStart / duration) * bounds.width;
+    const endX = (edit.trimEnd / duration) * bounds.width;
+    const target =
+      Math.abs(x - startX) <= HANDLE_GRAB
+        ? "trimStart"
+        : Math.abs(x - endX) <= HANDLE_GRAB
+        ? "trimEnd"
+        : Math.abs(x - startX) < Math.abs(x - endX)
+        ? "trimStart"
+        : "trimEnd";
+    dragRef.current = target;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    onTrimChange(target === "trimStart" ? { trimStart: toTime(event) } : { trimEnd: toTime(event) });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const target = dragRef.current;
+    if (!target) return;
+    onTrimChange(target === "trimStart" ? { trimStart: toTime(event) } : { trimEnd: toTime(event) });
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={styles.waveform}
+      width={WAVEFORM_WIDTH}
+      height={WAVEFORM_HEIGHT}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    />
+  );
+}
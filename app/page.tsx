@@ -1,54 +1,270 @@
 "use client";
 
 import NextImage from "next/image";
-import { ChangeEvent, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ChangeEvent,
+  DragEvent,
+  PointerEvent,
+  useEffect,
+  useMemo,
+  useRef,
+  useState
+} from "react";
 import clsx from "clsx";
 import styles from "./page.module.css";
-
-type Scene = {
-  id: string;
-  dialogue: string;
-  duration: number;
-  imageDataUrl?: string;
-  imageName?: string;
-  audioName?: string;
-  audioArrayBuffer?: ArrayBuffer;
-  audioDuration?: number;
-  accentColor: string;
+import CaptionStyleEditor from "./components/CaptionStyleEditor";
+import ExportQueuePanel from "./components/ExportQueuePanel";
+import BulkImportPanel from "./components/BulkImportPanel";
+import ClipSettings from "./components/ClipSettings";
+import HistoryPanel from "./components/HistoryPanel";
+import LayerPanel, { LayerProperties } from "./components/LayerPanel";
+import MusicBedSettings from "./components/MusicBedSettings";
+import NarrationSettings from "./components/NarrationSettings";
+import OnScreenChromeSettings from "./components/OnScreenChromeSettings";
+import PreviewTransport from "./components/PreviewTransport";
+import RenderProgressPanel from "./components/RenderProgressPanel";
+import ResolutionSettings from "./components/ResolutionSettings";
+import TimelineEditor from "./components/TimelineEditor";
+import TitleCardSettings from "./components/TitleCardSettings";
+import Waveform from "./components/Waveform";
+import {
+  RenderJob,
+  isBackgroundRenderSupported,
+  renderAssets,
+  renderInBackground,
+  transferableAudio
+} from "../utils/backgroundRender";
+import {
+  AssetId,
+  ImageBounds,
+  assetBytes,
+  assetUrl,
+  decodeImage,
+  getAssetBlob,
+  loadAssetImage,
+  putAsset,
+  releaseUnusedAssets,
+  settingsAssetIds
+} from "../utils/assets";
+import {
+  ExportFormat,
+  RenderCancelledError,
+  UnsupportedCodecError,
+  encodeStageLabels,
+  exportFormats,
+  isOfflineEncodingSupported,
+  throwIfCancelled
+} from "../utils/encoder";
+import {
+  builtInCaptionTemplates,
+  createCaptionTemplate,
+  defaultCaptionStyle,
+  fontFamilyFromFileName,
+  fontFamilyOptions,
+  loadCaptionTemplates,
+  registerProjectFonts,
+  resolveCaptionStyle,
+  saveCaptionTemplates
+} from "../utils/captions";
+import {
+  AUDIO_GAIN_MAX_DB,
+  AUDIO_GAIN_MIN_DB,
+  clampAudioEdit,
+  computePeaks,
+  detectSilenceBounds,
+  sceneAudioEdit,
+  sceneAudioLength
+} from "../utils/audioEdit";
+import {
+  SceneVisual,
+  clipLength,
+  createClip,
+  hasSceneVisual,
+  isVideoFile,
+  loadClipVideo,
+  releaseClipVideo,
+  seekVideo,
+  visualSize
+} from "../utils/clips";
+import {
+  HistoryCommand,
+  ProjectHistory,
+  emptyHistory,
+  recordHistory,
+  snapshotAssetIds,
+  travelHistory
+} from "../utils/history";
+import { defaultOnScreenChrome } from "../utils/chrome";
+import { SafeAreaGuides, drawSafeAreaGuides } from "../utils/guides";
+import { createId } from "../utils/ids";
+import { RenderTimer, createRenderTimer } from "../utils/renderTimer";
+import {
+  createMusicBed,
+  decodeAudio,
+  decodeMusicBed,
+  decodeSceneAudio,
+  mixTimelineAudio
+} from "../utils/mix";
+import {
+  LayerChanges,
+  LayerImageResolver,
+  applyLayerChanges,
+  createImageLayer,
+  createShapeLayer,
+  createTextLayer,
+  createWatermarkLayer,
+  drawLayerOutline,
+  hitTestLayers,
+  layerImageSources,
+  sortLayers
+} from "../utils/layers";
+import {
+  ProjectSummary,
+  createThumbnail,
+  deleteProjectRecord,
+  isAutosaveAvailable,
+  listRecentProjects,
+  loadProjectRecord,
+  saveProjectRecord
+} from "../utils/autosave";
+import {
+  PROJECT_FILE_EXTENSION,
+  ProjectFileError,
+  parseProjectFile,
+  serializeProject
+} from "../utils/projectFile";
+import {
+  ImportReport,
+  ImportedRow,
+  ScriptImportError,
+  compareFileNames,
+  findScript,
+  isMediaFile,
+  matchScriptAssets
+} from "../utils/scriptImport";
+import {
+  motionEasingOptions,
+  moveRect,
+  randomGentleMotion,
+  reframeMotion,
+  resizeRectFromAnchor
+} from "../utils/motion";
+import {
+  buildSubtitleTrack,
+  spreadCues,
+  toSrt,
+  toVtt
+} from "../utils/subtitles";
+import {
+  DURATION_MAX,
+  DURATION_MIN,
+  Timeline,
+  TimelineEntry,
+  buildTimeline,
+  sceneTimelineDuration
+} from "../utils/timeline";
+import {
+  createTitleCardScene,
+  findTitleCardTemplate,
+  titleCardTemplates,
+  withIntroOutro
+} from "../utils/titleCards";
+import {
+  RenderScratch,
+  SceneMeta,
+  buildSceneMetas,
+  containLayout,
+  coverCrop,
+  createRenderScratch,
+  drawTimelineFrame,
+  findMetaIndexAt,
+  frameTimeline,
+  renderableScenes,
+  sceneFitOptions,
+  sceneImageBounds,
+  visibleScenesAt
+} from "../utils/renderer";
+import {
+  TRANSITION_DURATION_MAX,
+  TRANSITION_DURATION_MIN,
+  createTransition,
+  transitionOptions
+} from "../utils/transitions";
+import {
+  TtsError,
+  createNarration,
+  isNarrationStale,
+  narrationKey,
+  synthesizeNarration
+} from "../utils/tts";
+import {
+  AudioEdit,
+  CanvasPreset,
+  CaptionStyle,
+  CaptionTemplate,
+  CropRect,
+  ExportJob,
+  FocalPoint,
+  ImageLayer,
+  MotionEasing,
+  MusicBed,
+  OnScreenChrome,
+  ProjectFont,
+  ProjectSettings,
+  ProjectSnapshot,
+  RenderProgress,
+  Scene,
+  SceneClip,
+  SceneFit,
+  SceneLayer,
+  SceneMotion,
+  SceneNarration,
+  StageTiming,
+  SubtitleCue,
+  TransitionType
+} from "../utils/types";
+
+type CachedSceneVisual = {
+  source: string;
+  visual: SceneVisual | null;
 };
 
-type CanvasPreset = {
-  label: string;
-  width: number;
-  height: number;
+type Playback = {
+  context: AudioContext;
+  source: AudioBufferSourceNode;
+  mix: AudioBuffer;
+  startedAt: number;
+  offset: number;
+  frame: number;
 };
 
-type SceneMeta = {
-  scene: Scene;
-  image: HTMLImageElement;
-  duration: number;
-  audioLength: number;
+/** Everything an export needs besides the canvas, loaded once per queue. */
+type ExportAssets = {
+  job: Omit<RenderJob, "width" | "height" | "audio">;
+  mix: AudioBuffer;
+  /** Clip videos by scene id, seeked on request while the worker renders. */
+  clips: Map<string, HTMLVideoElement>;
 };
 
-const DURATION_MIN = 1;
-const DURATION_MAX = 30;
+const AUTOSAVE_DELAY_MS = 1000;
+const RENDER_PROGRESS_INTERVAL_MS = 200;
+const NARRATION_REFRESH_DELAY_MS = 800;
+// Some browsers still read a download's blob after click() returns.
+const DOWNLOAD_URL_LIFETIME_MS = 60_000;
 
 const canvasPresets: CanvasPreset[] = [
   { label: "HD 16:9 (1280x720)", width: 1280, height: 720 },
   { label: "FHD 16:9 (1920x1080)", width: 1920, height: 1080 },
+  { label: "4K UHD 16:9 (3840x2160)", width: 3840, height: 2160 },
+  { label: "Panorámico 21:9 (2560x1080)", width: 2560, height: 1080 },
   { label: "Cuadrado 1:1 (1080x1080)", width: 1080, height: 1080 },
-  { label: "Vertical 9:16 (1080x1920)", width: 1080, height: 1920 }
+  { label: "Retrato 4:5 (1080x1350)", width: 1080, height: 1350 },
+  { label: "Vertical 9:16 (1080x1920)", width: 1080, height: 1920 },
+  { label: "4K vertical 9:16 (2160x3840)", width: 2160, height: 3840 }
 ];
 
 const fpsOptions = [24, 30, 60];
 
-const createId = () => {
-  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
-    return crypto.randomUUID();
-  }
-  return Math.random().toString(36).slice(2, 12);
-};
-
 const randomAccent = () =>
   `hsl(${Math.floor(Math.random() * 360)}, 82%, 58%)`;
 
@@ -59,6 +275,77 @@ const createScene = (): Scene => ({
   accentColor: randomAccent()
 });
 
+type MotionDrag = {
+  target: "start" | "end";
+  mode: "move" | "resize";
+  anchor: { x: number; y: number };
+  last: { x: number; y: number };
+};
+
+type LayerDrag = {
+  layerId: string;
+  offsetX: number;
+  offsetY: number;
+};
+
+const MOTION_HANDLE_RADIUS = 18;
+const FRAMING_COLORS = ["#f97316", "#22c55e", "#38bdf8", "#a855f7", "#facc15", "#f43f5e"];
+
+// Images are keyed by the size they are decoded at, which follows the frame and the zoom.
+const sceneVisualSource = (scene: Scene, frame: ImageBounds) => {
+  if (scene.clip) return scene.clip.assetId;
+  if (!scene.imageAssetId) return undefined;
+  const { width, height } = sceneImageBounds(scene, frame);
+  return `${scene.imageAssetId}@${width}x${height}`;
+};
+
+const loadSceneVisual = (scene: Scene, frame: ImageBounds): Promise<SceneVisual> =>
+  scene.clip
+    ? loadClipVideo(scene.clip)
+    : loadAssetImage(scene.imageAssetId as string, sceneImageBounds(scene, frame));
+
+const releaseSceneVisual = (visual: SceneVisual | null) => {
+  if (visual instanceof HTMLVideoElement) releaseClipVideo(visual);
+};
+
+// Layer and watermark images by asset id, decoded at full size.
+const layerImageCache = new Map<AssetId, ImageBitmap>();
+
+const resolveLayerImage: LayerImageResolver = (assetId) => layerImageCache.get(assetId);
+
+const loadLayerImage = async (assetId: AssetId) => {
+  const image = layerImageCache.get(assetId) ?? (await decodeImage(getAssetBlob(assetId)));
+  layerImageCache.set(assetId, image);
+  return image;
+};
+
+const preloadLayerImages = async (assetIds: AssetId[]) => {
+  await Promise.all(assetIds.map(loadLayerImage));
+};
+
+const releaseLayerImages = (live: Set<AssetId>) => {
+  layerImageCache.forEach((image, assetId) => {
+    if (live.has(assetId)) return;
+    image.close();
+    layerImageCache.delete(assetId);
+  });
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
+
+const hasProjectContent = (scenes: Scene[]) =>
+  scenes.some(
+    (scene) =>
+      hasSceneVisual(scene) || scene.titleCard || scene.audioAssetId || scene.dialogue.trim()
+  );
+
 const formatSeconds = (seconds: number) => {
   const mins = Math.floor(seconds / 60)
     .toString()
@@ -71,23 +358,87 @@ const formatSeconds = (seconds: number) => {
 
 export default function Page() {
   const [scenes, setScenes] = useState<Scene[]>(() => [createScene()]);
+  const [history, setHistory] = useState<ProjectHistory>(emptyHistory);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  // Always the latest scenes, so edits issued back to back build on each other.
+  const scenesRef = useRef(scenes);
   const [selectedSceneId, setSelectedSceneId] = useState<string | null>(null);
   const [canvasPreset, setCanvasPreset] = useState<CanvasPreset>(canvasPresets[0]);
   const [fps, setFps] = useState<number>(30);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("webm");
+  const [embedSubtitles, setEmbedSubtitles] = useState(false);
+  // Project-wide settings live in one state so undo restores them with the scenes.
+  const [settings, setSettings] = useState<ProjectSettings>(() => ({
+    captionStyle: defaultCaptionStyle,
+    chrome: defaultOnScreenChrome
+  }));
+  const settingsRef = useRef(settings);
+  const { captionStyle, watermark, music, intro, outro, chrome } = settings;
+  const [fonts, setFonts] = useState<ProjectFont[]>([]);
+  const [captionTemplates, setCaptionTemplates] = useState<CaptionTemplate[]>([]);
+  const [captionScope, setCaptionScope] = useState<"project" | "scene">("project");
   const [isGenerating, setIsGenerating] = useState(false);
   const [statusMessage, setStatusMessage] = useState<string>("");
   const [statusTone, setStatusTone] = useState<"neutral" | "success" | "error">(
     "neutral"
   );
   const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
+  const [generatedVideoFormat, setGeneratedVideoFormat] =
+    useState<ExportFormat>("webm");
+  const [projectId, setProjectId] = useState<string>(() => createId());
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [restoreCandidate, setRestoreCandidate] = useState<ProjectSummary | null>(
+    null
+  );
+  const thumbnailCacheRef = useRef<{ source: string; thumbnail?: string } | null>(
+    null
+  );
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const projectInputRef = useRef<HTMLInputElement | null>(null);
   const recorderRef = useRef<MediaRecorder | null>(null);
   const recordingStreamRef = useRef<MediaStream | null>(null);
   const recordingChunksRef = useRef<Blob[]>([]);
   const [recordingSceneId, setRecordingSceneId] = useState<string | null>(null);
   const [isRecording, setIsRecording] = useState(false);
+  const sceneVisualsRef = useRef(new Map<string, CachedSceneVisual>());
+  // What the cache held after its last change, so renders see loaded visuals.
+  const [sceneVisuals, setSceneVisuals] = useState<ReadonlyMap<string, CachedSceneVisual>>(
+    () => new Map()
+  );
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const playbackRef = useRef<Playback | null>(null);
+  const previewMixRef = useRef<{ scenes: Scene[]; music?: MusicBed; buffer: AudioBuffer } | null>(
+    null
+  );
+  const previewDrawRef = useRef(0);
+  const previewScratchRef = useRef<RenderScratch | null>(null);
+  const [safeAreaGuides, setSafeAreaGuides] = useState<SafeAreaGuides>({
+    safe: false,
+    title: false
+  });
+  const [motionEditing, setMotionEditing] = useState(false);
+  const [focusEditing, setFocusEditing] = useState(false);
+  const focusDragRef = useRef(false);
+  const [queuePresetLabels, setQueuePresetLabels] = useState<string[]>([]);
+  const [exportJobs, setExportJobs] = useState<ExportJob[]>([]);
+  const exportUrlsRef = useRef<string[]>([]);
+  const [renderProgress, setRenderProgress] = useState<RenderProgress | null>(null);
+  const [renderTimings, setRenderTimings] = useState<StageTiming[]>([]);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const motionDragRef = useRef<MotionDrag | null>(null);
+  const layerDragRef = useRef<LayerDrag | null>(null);
+  const draggedSceneRef = useRef<string | null>(null);
+  const [selectedAudioBuffer, setSelectedAudioBuffer] = useState<AudioBuffer | null>(null);
+  const [narratingSceneIds, setNarratingSceneIds] = useState<string[]>([]);
+  // Scene and narration keys whose synthesis failed; automatic refreshes skip
+  // them until the text or the voice settings change.
+  const failedNarrationsRef = useRef(new Set<string>());
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [layerImagesVersion, setLayerImagesVersion] = useState(0);
 
   useEffect(() => {
     if (!selectedSceneId && scenes.length > 0) {
@@ -108,6 +459,11 @@ export default function Page() {
     };
   }, [generatedVideoUrl]);
 
+  useEffect(() => {
+    const urls = exportUrlsRef.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
   useEffect(() => {
     if (canvasRef.current) {
       canvasRef.current.width = canvasPreset.width;
@@ -115,20 +471,99 @@ export default function Page() {
     }
   }, [canvasPreset]);
 
-  const totalDuration = useMemo(() => {
-    return scenes.reduce((sum, scene) => {
-      const base = Math.max(scene.duration, DURATION_MIN);
-      if (scene.audioDuration) {
-        return sum + Math.max(base, scene.audioDuration);
+  useEffect(() => {
+    if (!isAutosaveAvailable()) return;
+    listRecentProjects()
+      .then((summaries) => {
+        setRecentProjects(summaries);
+        setRestoreCandidate(summaries[0] ?? null);
+      })
+      .catch((error) => console.error("No se pudo leer el autoguardado", error));
+  }, []);
+
+  useEffect(() => {
+    if (!isAutosaveAvailable() || !hasProjectContent(scenes)) return;
+    const timeout = window.setTimeout(async () => {
+      try {
+        const source = assetUrl(scenes.find((scene) => scene.imageAssetId)?.imageAssetId);
+        let thumbnail: string | undefined;
+        if (source) {
+          if (thumbnailCacheRef.current?.source !== source) {
+            thumbnailCacheRef.current = {
+              source,
+              thumbnail: await createThumbnail(source)
+            };
+          }
+          thumbnail = thumbnailCacheRef.current.thumbnail;
+        }
+        await saveProjectRecord(
+          projectId,
+          {
+            scenes,
+            canvasPreset,
+            fps,
+            exportFormat,
+            captionStyle,
+            fonts,
+            watermark,
+            music,
+            intro,
+            outro,
+            chrome
+          },
+          thumbnail
+        );
+        setRecentProjects(await listRecentProjects());
+      } catch (error) {
+        console.error("No se pudo autoguardar el proyecto", error);
       }
-      return sum + base;
-    }, 0);
-  }, [scenes]);
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [
+    scenes,
+    canvasPreset,
+    fps,
+    exportFormat,
+    captionStyle,
+    fonts,
+    watermark,
+    music,
+    intro,
+    outro,
+    chrome,
+    projectId
+  ]);
+
+  // Preview and export share this timeline: the intro, the scenes that can be
+  // drawn (image, clip or title card) and the outro.
+  const renderScenes = useMemo(
+    () => renderableScenes(withIntroOutro(scenes, { intro, outro })),
+    [scenes, intro, outro]
+  );
+  const skippedSceneCount = scenes.length - renderableScenes(scenes).length;
+  const timeline = useMemo(() => buildTimeline(renderScenes), [renderScenes]);
+  const formatSupportsSubtitles = Boolean(
+    exportFormats.find(({ value }) => value === exportFormat)?.supportsSubtitles
+  );
+  const totalDuration = timeline.total;
+
+  useEffect(() => {
+    setCaptionTemplates(loadCaptionTemplates());
+  }, []);
+
+  useEffect(() => {
+    registerProjectFonts(fonts).catch((error) =>
+      console.error("No se pudieron registrar las fuentes", error)
+    );
+  }, [fonts]);
 
   const selectedScene = useMemo(
     () => scenes.find((scene) => scene.id === selectedSceneId) ?? null,
     [scenes, selectedSceneId]
   );
+  const previewVisual = selectedScene
+    ? sceneVisuals.get(selectedScene.id)?.visual ?? null
+    : null;
 
   const ensureAudioContext = async () => {
     if (!audioContextRef.current) {
@@ -140,52 +575,296 @@ export default function Page() {
     return audioContextRef.current;
   };
 
+  /** Replaces the scenes without an undo step (project loads, background updates). */
+  const replaceScenes = (update: (prev: Scene[]) => Scene[]) => {
+    const next = update(scenesRef.current);
+    if (next === scenesRef.current) return;
+    scenesRef.current = next;
+    setScenes(next);
+  };
+
+  /** Applies a scene edit as an undoable command. */
+  const commitScenes = (command: HistoryCommand, update: (prev: Scene[]) => Scene[]) => {
+    const prev = scenesRef.current;
+    const next = update(prev);
+    if (next === prev) return;
+    scenesRef.current = next;
+    setScenes(next);
+    const before = { scenes: prev, settings: settingsRef.current };
+    setHistory((current) => recordHistory(current, command, before, { ...before, scenes: next }));
+  };
+
+  /** Replaces the project-wide settings without an undo step (project loads, undo). */
+  const replaceSettings = (next: ProjectSettings) => {
+    settingsRef.current = next;
+    setSettings(next);
+  };
+
+  /** Applies a change to the project-wide settings as an undoable command. */
+  const commitSettings = (
+    command: HistoryCommand,
+    update: (prev: ProjectSettings) => ProjectSettings
+  ) => {
+    const prev = settingsRef.current;
+    const next = update(prev);
+    if (next === prev) return;
+    replaceSettings(next);
+    const before = { scenes: scenesRef.current, settings: prev };
+    setHistory((current) =>
+      recordHistory(current, command, before, { ...before, settings: next })
+    );
+  };
+
+  const travel = (steps: number) => {
+    const current = { scenes: scenesRef.current, settings: settingsRef.current };
+    const moved = travelHistory(history, current, steps);
+    if (!moved) return;
+    replaceScenes(() => moved.snapshot.scenes);
+    replaceSettings(moved.snapshot.settings);
+    setHistory(moved.history);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      // Text fields keep the browser's own undo for the text being typed.
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable]")) return;
+      event.preventDefault();
+      travel(key === "y" || event.shiftKey ? 1 : -1);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
   const handleDialogueChange = (sceneId: string, value: string) => {
-    setScenes((prev) =>
+    commitScenes({ label: "Editar diálogo", coalesceKey: `dialogue:${sceneId}` }, (prev) =>
       prev.map((scene) =>
         scene.id === sceneId ? { ...scene, dialogue: value } : scene
       )
     );
   };
 
+  const updateSceneCues = (
+    sceneId: string,
+    cues: SubtitleCue[] | undefined,
+    command: HistoryCommand = { label: "Editar subtítulos" }
+  ) => {
+    commitScenes(command, (prev) =>
+      prev.map((scene) => (scene.id === sceneId ? { ...scene, cues } : scene))
+    );
+  };
+
+  const distributeCues = (scene: Scene) => {
+    const length = sceneAudioLength(scene) || sceneTimelineDuration(scene);
+    updateSceneCues(scene.id, spreadCues(scene.dialogue, length));
+  };
+
+  const handleCueChange = (
+    scene: Scene,
+    cueId: string,
+    changes: Partial<Omit<SubtitleCue, "id">>
+  ) => {
+    updateSceneCues(
+      scene.id,
+      scene.cues?.map((cue) => (cue.id === cueId ? { ...cue, ...changes } : cue)),
+      { label: "Editar subtítulos", coalesceKey: `cue:${cueId}` }
+    );
+  };
+
+  const addCue = (scene: Scene) => {
+    const cues = scene.cues ?? [];
+    const start = cues[cues.length - 1]?.end ?? 0;
+    const end = Math.min(sceneTimelineDuration(scene), start + 2);
+    updateSceneCues(scene.id, [...cues, { id: createId(), start, end, text: "" }]);
+  };
+
+  const removeCue = (scene: Scene, cueId: string) => {
+    updateSceneCues(
+      scene.id,
+      scene.cues?.filter((cue) => cue.id !== cueId)
+    );
+  };
+
+  const handleKaraokeChange = (sceneId: string, karaoke: boolean) => {
+    commitScenes({ label: "Cambiar karaoke" }, (prev) =>
+      prev.map((scene) => (scene.id === sceneId ? { ...scene, karaoke } : scene))
+    );
+  };
+
+  const updateCaptionStyle = (changes: Partial<CaptionStyle>) => {
+    if (captionScope === "project" || !selectedScene) {
+      commitSettings({ label: "Estilo de subtítulos", coalesceKey: "captionStyle" }, (prev) => ({
+        ...prev,
+        captionStyle: { ...prev.captionStyle, ...changes }
+      }));
+      return;
+    }
+    const command = {
+      label: "Estilo de subtítulos",
+      coalesceKey: `captionStyle:${selectedScene.id}`
+    };
+    commitScenes(command, (prev) =>
+      prev.map((scene) =>
+        scene.id === selectedScene.id
+          ? { ...scene, captionStyle: { ...scene.captionStyle, ...changes } }
+          : scene
+      )
+    );
+  };
+
+  const resetSceneCaptionStyle = (sceneId: string) => {
+    commitScenes({ label: "Restablecer estilo de subtítulos" }, (prev) =>
+      prev.map((scene) =>
+        scene.id === sceneId ? { ...scene, captionStyle: undefined } : scene
+      )
+    );
+  };
+
+  const applyCaptionTemplate = (templateId: string) => {
+    const template = [...builtInCaptionTemplates, ...captionTemplates].find(
+      ({ id }) => id === templateId
+    );
+    if (template) {
+      updateCaptionStyle(template.style);
+    }
+  };
+
+  const saveCurrentCaptionTemplate = (style: CaptionStyle) => {
+    const name = window.prompt("Nombre de la plantilla de subtítulos")?.trim();
+    if (!name) return;
+    const next = [...captionTemplates, createCaptionTemplate(name, style)];
+    setCaptionTemplates(next);
+    saveCaptionTemplates(next);
+  };
+
+  const removeCaptionTemplate = (templateId: string) => {
+    const next = captionTemplates.filter(({ id }) => id !== templateId);
+    setCaptionTemplates(next);
+    saveCaptionTemplates(next);
+  };
+
+  const handleFontUpload = async (file: File) => {
+    try {
+      const font: ProjectFont = {
+        id: createId(),
+        family: fontFamilyFromFileName(file.name),
+        fileName: file.name,
+        type: file.type || "font/ttf",
+        assetId: await putAsset(file)
+      };
+      const next = [...fonts.filter(({ family }) => family !== font.family), font];
+      await registerProjectFonts(next);
+      setFonts(next);
+      updateCaptionStyle({ fontFamily: font.family });
+      setStatusTone("success");
+      setStatusMessage(`Fuente "${font.family}" cargada.`);
+    } catch (error) {
+      console.error("Error al cargar la fuente", error);
+      setStatusTone("error");
+      setStatusMessage("No se pudo cargar la fuente. Usa archivos .ttf, .otf o .woff2.");
+    }
+  };
+
+  const exportSubtitles = (kind: "srt" | "vtt") => {
+    const cues = buildSubtitleTrack(timeline.entries);
+    if (cues.length === 0) {
+      setStatusTone("error");
+      setStatusMessage("No hay subtítulos que exportar en las escenas con imagen.");
+      return;
+    }
+    downloadBlob(
+      new Blob([kind === "srt" ? toSrt(cues) : toVtt(cues)], {
+        type: kind === "srt" ? "application/x-subrip" : "text/vtt"
+      }),
+      `video-ia.${kind}`
+    );
+  };
+
   const handleDurationChange = (sceneId: string, duration: number) => {
-    setScenes((prev) =>
+    commitScenes({ label: "Cambiar duración", coalesceKey: `duration:${sceneId}` }, (prev) =>
       prev.map((scene) =>
         scene.id === sceneId ? { ...scene, duration } : scene
       )
     );
   };
 
-  const handleImageUpload = (sceneId: string, file: File | null) => {
+  const handleImageUpload = async (sceneId: string, file: File | null) => {
     if (!file) return;
-    const reader = new FileReader();
-    reader.onload = () => {
-      const dataUrl = reader.result as string;
-      setScenes((prev) =>
+    const imageAssetId = await putAsset(file);
+    commitScenes({ label: "Cambiar imagen" }, (prev) =>
+      prev.map((scene) =>
+        scene.id === sceneId
+          ? { ...scene, imageAssetId, imageName: file.name, clip: undefined }
+          : scene
+      )
+    );
+  };
+
+  const handleClipUpload = async (sceneId: string, file: File) => {
+    try {
+      const clip = await createClip(file);
+      commitScenes({ label: "Cambiar clip" }, (prev) =>
         prev.map((scene) =>
           scene.id === sceneId
-            ? { ...scene, imageDataUrl: dataUrl, imageName: file.name }
+            ? {
+                ...scene,
+                clip,
+                imageAssetId: undefined,
+                imageName: undefined,
+                duration: Math.min(DURATION_MAX, Math.max(DURATION_MIN, clip.duration))
+              }
             : scene
         )
       );
-    };
-    reader.readAsDataURL(file);
+      setStatusTone("success");
+      setStatusMessage("Clip de video cargado en la escena.");
+    } catch (error) {
+      console.error("Error al cargar el clip", error);
+      setStatusTone("error");
+      setStatusMessage("No se pudo leer el clip de video.");
+    }
+  };
+
+  const updateSceneClip = (sceneId: string, changes: Partial<SceneClip>) => {
+    commitScenes({ label: "Ajustar clip", coalesceKey: `clip:${sceneId}` }, (prev) =>
+      prev.map((scene) => {
+        if (scene.id !== sceneId || !scene.clip) return scene;
+        const clip = { ...scene.clip, ...changes };
+        const trimmed = "trimStart" in changes || "trimEnd" in changes;
+        return {
+          ...scene,
+          clip,
+          duration:
+            trimmed && !clip.loop
+              ? Math.min(DURATION_MAX, Math.max(DURATION_MIN, clipLength(clip)))
+              : scene.duration
+        };
+      })
+    );
   };
 
   const handleAudioUpload = async (sceneId: string, file: File | null) => {
     if (!file) return;
     try {
       const ctx = await ensureAudioContext();
-      const arrayBuffer = await file.arrayBuffer();
-      const decoded = await ctx.decodeAudioData(arrayBuffer.slice(0));
-      setScenes((prev) =>
+      const decoded = await ctx.decodeAudioData(await file.arrayBuffer());
+      const audioAssetId = await putAsset(file);
+      commitScenes({ label: "Cambiar audio" }, (prev) =>
         prev.map((scene) =>
           scene.id === sceneId
             ? {
                 ...scene,
-                audioArrayBuffer: arrayBuffer.slice(0),
+                audioAssetId,
                 audioName: file.name,
-                audioDuration: decoded.duration
+                audioDuration: decoded.duration,
+                audioEdit: undefined,
+                narration: scene.narration && {
+                  ...scene.narration,
+                  generatedKey: undefined
+                }
               }
             : scene
         )
@@ -199,15 +878,138 @@ export default function Page() {
     }
   };
 
+  const handleMusicUpload = async (file: File) => {
+    try {
+      const ctx = await ensureAudioContext();
+      const decoded = await ctx.decodeAudioData(await file.arrayBuffer());
+      const assetId = await putAsset(file);
+      commitSettings({ label: "Cambiar música" }, (prev) => ({
+        ...prev,
+        music: {
+          ...createMusicBed(file.name, file.type || "audio/mpeg", assetId, decoded.duration),
+          ...(prev.music && {
+            volume: prev.music.volume,
+            fadeIn: prev.music.fadeIn,
+            fadeOut: prev.music.fadeOut,
+            loop: prev.music.loop,
+            duckLevel: prev.music.duckLevel
+          })
+        }
+      }));
+      setStatusTone("success");
+      setStatusMessage("Música de fondo cargada.");
+    } catch (error) {
+      console.error("Error al decodificar la música", error);
+      setStatusTone("error");
+      setStatusMessage("No se pudo decodificar el archivo de música.");
+    }
+  };
+
+  const handleNarrationChange = (scene: Scene, changes: Partial<SceneNarration>) => {
+    commitScenes({ label: "Ajustar voz", coalesceKey: `narration:${scene.id}` }, (prev) =>
+      prev.map((item) =>
+        item.id === scene.id
+          ? { ...item, narration: { ...(item.narration ?? createNarration()), ...changes } }
+          : item
+      )
+    );
+  };
+
+  const generateNarration = async (scene: Scene, quiet = false) => {
+    const narration = scene.narration ?? createNarration();
+    const key = narrationKey(scene, narration);
+    failedNarrationsRef.current.delete(`${scene.id}:${key}`);
+    setNarratingSceneIds((prev) => [...prev, scene.id]);
+    try {
+      const { data } = await synthesizeNarration(scene, narration);
+      const decoded = await decodeAudio(data);
+      const audioAssetId = await putAsset(data, "audio/wav");
+      // Automatic refreshes follow an edit that is already in the history.
+      const update = (prev: Scene[]) =>
+        prev.map((item) =>
+          item.id === scene.id
+            ? {
+                ...item,
+                audioAssetId,
+                audioName: "Voz sintetizada.wav",
+                audioDuration: decoded.duration,
+                audioEdit: undefined,
+                narration: { ...(item.narration ?? narration), generatedKey: key }
+              }
+            : item
+        );
+      if (quiet) {
+        replaceScenes(update);
+      } else {
+        commitScenes({ label: "Generar voz" }, update);
+        setStatusTone("success");
+        setStatusMessage("Voz generada a partir del diálogo.");
+      }
+    } catch (error) {
+      failedNarrationsRef.current.add(`${scene.id}:${key}`);
+      console.error("Error al sintetizar la voz", error);
+      setStatusTone("error");
+      setStatusMessage(
+        error instanceof TtsError ? error.message : "No se pudo generar la voz."
+      );
+    } finally {
+      setNarratingSceneIds((prev) => prev.filter((id) => id !== scene.id));
+    }
+  };
+
+  const generateNarrationRef = useRef(generateNarration);
+  useEffect(() => {
+    generateNarrationRef.current = generateNarration;
+  });
+
+  useEffect(() => {
+    const stale = scenes.filter(
+      (scene) =>
+        scene.narration &&
+        isNarrationStale(scene) &&
+        !narratingSceneIds.includes(scene.id) &&
+        !failedNarrationsRef.current.has(`${scene.id}:${narrationKey(scene, scene.narration)}`)
+    );
+    if (stale.length === 0) return;
+    const timeout = window.setTimeout(() => {
+      stale.forEach((scene) => generateNarrationRef.current(scene, true));
+    }, NARRATION_REFRESH_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [scenes, narratingSceneIds]);
+
+  const updateAudioEdit = (scene: Scene, changes: Partial<AudioEdit>) => {
+    const edit = sceneAudioEdit(scene);
+    if (!edit || scene.audioDuration === undefined) return;
+    const audioEdit = clampAudioEdit({ ...edit, ...changes }, scene.audioDuration);
+    commitScenes({ label: "Editar audio", coalesceKey: `audioEdit:${scene.id}` }, (prev) =>
+      prev.map((item) => (item.id === scene.id ? { ...item, audioEdit } : item))
+    );
+  };
+
+  const trimSilence = (scene: Scene) => {
+    if (!selectedAudioBuffer) return;
+    const bounds = detectSilenceBounds(selectedAudioBuffer);
+    if (!bounds) {
+      setStatusTone("error");
+      setStatusMessage("No se detectó voz en el audio de la escena.");
+      return;
+    }
+    updateAudioEdit(scene, bounds);
+    setStatusTone("success");
+    setStatusMessage("Silencios del inicio y el final recortados.");
+  };
+
   const clearAudio = (sceneId: string) => {
-    setScenes((prev) =>
+    commitScenes({ label: "Quitar audio" }, (prev) =>
       prev.map((scene) =>
         scene.id === sceneId
           ? {
               ...scene,
-              audioArrayBuffer: undefined,
+              audioAssetId: undefined,
               audioDuration: undefined,
-              audioName: undefined
+              audioEdit: undefined,
+              audioName: undefined,
+              narration: scene.narration && { ...scene.narration, generatedKey: undefined }
             }
           : scene
       )
@@ -215,20 +1017,38 @@ export default function Page() {
   };
 
   const addScene = () => {
-    setScenes((prev) => {
+    commitScenes({ label: "Añadir escena" }, (prev) => {
       const next = [...prev, createScene()];
       return next;
     });
   };
 
+  const addTitleCard = (templateId: string) => {
+    const template = findTitleCardTemplate(templateId);
+    if (!template) return;
+    const card = createTitleCardScene(template);
+    commitScenes({ label: "Añadir tarjeta" }, (prev) => [...prev, card]);
+    setSelectedSceneId(card.id);
+  };
+
+  const updateTitleCardScene = (sceneId: string, changes: Partial<Scene>) => {
+    commitScenes({ label: "Editar tarjeta", coalesceKey: `card:${sceneId}` }, (prev) =>
+      prev.map((scene) => (scene.id === sceneId ? { ...scene, ...changes } : scene))
+    );
+  };
+
   const duplicateScene = (sceneId: string) => {
-    setScenes((prev) => {
+    commitScenes({ label: "Duplicar escena" }, (prev) => {
       const index = prev.findIndex((scene) => scene.id === sceneId);
       if (index === -1) return prev;
+      const source = prev[index];
+      // Layers and cues are selected and edited by id, so the copies get their own.
       const clone: Scene = {
-        ...prev[index],
+        ...source,
         id: createId(),
-        accentColor: randomAccent()
+        accentColor: randomAccent(),
+        layers: source.layers?.map((layer) => ({ ...layer, id: createId() })),
+        cues: source.cues?.map((cue) => ({ ...cue, id: createId() }))
       };
       const next = [...prev];
       next.splice(index + 1, 0, clone);
@@ -236,8 +1056,137 @@ export default function Page() {
     });
   };
 
+  /** Moves a scene in front of `beforeSceneId`, or to the end when it is null. */
+  const moveScene = (sceneId: string, beforeSceneId: string | null) => {
+    commitScenes({ label: "Reordenar escenas" }, (prev) => {
+      const moving = prev.find((scene) => scene.id === sceneId);
+      if (!moving || sceneId === beforeSceneId) return prev;
+      const rest = prev.filter((scene) => scene.id !== sceneId);
+      const index = rest.findIndex((scene) => scene.id === beforeSceneId);
+      const insertAt = index === -1 ? rest.length : index;
+      return [...rest.slice(0, insertAt), moving, ...rest.slice(insertAt)];
+    });
+  };
+
+  const sceneFromMedia = async (file: File): Promise<Scene> => {
+    if (!isVideoFile(file)) {
+      return {
+        ...createScene(),
+        imageAssetId: await putAsset(file),
+        imageName: file.name
+      };
+    }
+    const clip = await createClip(file);
+    return {
+      ...createScene(),
+      clip,
+      duration: Math.min(DURATION_MAX, Math.max(DURATION_MIN, clip.duration))
+    };
+  };
+
+  const sceneFromScriptRow = async (row: ImportedRow): Promise<Scene> => {
+    const scene = row.imageFile ? await sceneFromMedia(row.imageFile) : createScene();
+    const audio = row.audioFile && {
+      name: row.audioFile.name,
+      assetId: await putAsset(row.audioFile),
+      duration: (await decodeAudio(await row.audioFile.arrayBuffer())).duration
+    };
+    return {
+      ...scene,
+      dialogue: row.dialogue,
+      duration:
+        row.duration === undefined
+          ? scene.duration
+          : Math.min(DURATION_MAX, Math.max(DURATION_MIN, row.duration)),
+      ...(audio && {
+        audioAssetId: audio.assetId,
+        audioName: audio.name,
+        audioDuration: audio.duration
+      })
+    };
+  };
+
+  const insertScenes = (created: Scene[], beforeSceneId: string | null) => {
+    commitScenes({ label: "Importar escenas" }, (prev) => {
+      // A fresh project's placeholder scene is replaced rather than kept in front.
+      const base = hasProjectContent(prev) ? prev : [];
+      const index = base.findIndex((scene) => scene.id === beforeSceneId);
+      const insertAt = index === -1 ? base.length : index;
+      return [...base.slice(0, insertAt), ...created, ...base.slice(insertAt)];
+    });
+    setSelectedSceneId(created[0].id);
+  };
+
+  const addMediaScenes = async (files: File[], beforeSceneId: string | null) => {
+    try {
+      const created = await Promise.all(
+        files.filter(isMediaFile).sort(compareFileNames).map(sceneFromMedia)
+      );
+      if (created.length === 0) return;
+      insertScenes(created, beforeSceneId);
+      setStatusTone("success");
+      setStatusMessage(
+        created.length === 1 ? "Escena creada." : `${created.length} escenas creadas.`
+      );
+    } catch (error) {
+      console.error("Error al importar los archivos", error);
+      setStatusTone("error");
+      setStatusMessage("No se pudieron crear escenas con los archivos soltados.");
+    }
+  };
+
+  const importFiles = async (files: File[]) => {
+    setIsImporting(true);
+    try {
+      let report: ImportReport;
+      const script = await findScript(files);
+      if (script) {
+        const assets = files.filter((file) => file !== script.file);
+        const matched = matchScriptAssets(script.rows, assets);
+        const created = await Promise.all(matched.rows.map(sceneFromScriptRow));
+        if (created.length > 0) insertScenes(created, null);
+        report = {
+          source: script.file.name,
+          created: created.length,
+          missing: matched.missing,
+          unused: matched.unused
+        };
+      } else {
+        const media = files.filter(isMediaFile).sort(compareFileNames);
+        if (media.length === 0) {
+          throw new ScriptImportError("No hay imágenes, clips ni guiones entre los archivos.");
+        }
+        const created = await Promise.all(media.map(sceneFromMedia));
+        insertScenes(created, null);
+        report = {
+          source: media.length === 1 ? media[0].name : `${media.length} archivos`,
+          created: created.length,
+          missing: [],
+          unused: files.filter((file) => !isMediaFile(file)).map((file) => file.name)
+        };
+      }
+      setImportReport(report);
+      setStatusTone(report.missing.length > 0 ? "error" : "success");
+      setStatusMessage(
+        report.missing.length > 0
+          ? `Importación completada con ${report.missing.length} archivos faltantes.`
+          : `${report.created} escenas importadas.`
+      );
+    } catch (error) {
+      console.error("Error en la importación masiva", error);
+      setStatusTone("error");
+      setStatusMessage(
+        error instanceof ScriptImportError
+          ? error.message
+          : "No se pudieron importar los archivos."
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const removeScene = (sceneId: string) => {
-    setScenes((prev) => {
+    commitScenes({ label: "Eliminar escena" }, (prev) => {
       if (prev.length === 1) return prev;
       return prev.filter((scene) => scene.id !== sceneId);
     });
@@ -266,22 +1215,33 @@ export default function Page() {
           type: "audio/webm"
         });
         if (blob.size === 0) return;
-        const arrayBuffer = await blob.arrayBuffer();
-        const decoded = await ctx.decodeAudioData(arrayBuffer.slice(0));
-        setScenes((prev) =>
-          prev.map((scene) =>
-            scene.id === sceneId
-              ? {
-                  ...scene,
-                  audioArrayBuffer: arrayBuffer.slice(0),
-                  audioDuration: decoded.duration,
-                  audioName: "Grabación de voz"
-                }
-              : scene
-          )
-        );
-        setStatusTone("success");
-        setStatusMessage("Grabación guardada en la escena.");
+        try {
+          const decoded = await ctx.decodeAudioData(await blob.arrayBuffer());
+          const audioAssetId = await putAsset(blob);
+          commitScenes({ label: "Grabar voz" }, (prev) =>
+            prev.map((scene) =>
+              scene.id === sceneId
+                ? {
+                    ...scene,
+                    audioAssetId,
+                    audioDuration: decoded.duration,
+                    audioEdit: undefined,
+                    narration: scene.narration && {
+                      ...scene.narration,
+                      generatedKey: undefined
+                    },
+                    audioName: "Grabación de voz"
+                  }
+                : scene
+            )
+          );
+          setStatusTone("success");
+          setStatusMessage("Grabación guardada en la escena.");
+        } catch (error) {
+          console.error("Error al guardar la grabación", error);
+          setStatusTone("error");
+          setStatusMessage("No se pudo guardar la grabación.");
+        }
       };
       recorderRef.current = recorder;
       recordingStreamRef.current = mediaStream;
@@ -300,290 +1260,1250 @@ export default function Page() {
     recorderRef.current?.stop();
   };
 
-  const loadImage = (src: string) => {
-    return new Promise<HTMLImageElement>((resolve, reject) => {
-      const image = document.createElement("img");
-      image.onload = () => resolve(image);
-      image.onerror = reject;
-      image.src = src;
-    });
+  /** Seeks the clips visible at `time` so the following draw is frame-accurate. */
+  const seekTimelineClips = async (metas: SceneMeta[], time: number) => {
+    await Promise.all(
+      visibleScenesAt(metas, time).map(({ meta, clipTime }) =>
+        clipTime !== undefined && meta.visual instanceof HTMLVideoElement
+          ? seekVideo(meta.visual, clipTime)
+          : undefined
+      )
+    );
+  };
+
+  // Motion plays reframed to the canvas aspect (see reframeMotion), so it is
+  // shown and edited that way too.
+  const canvasMotion = (motion: SceneMotion, visual: SceneVisual) => {
+    const source = visualSize(visual);
+    const imageAspect = source.width / source.height;
+    return reframeMotion(motion, imageAspect, canvasPreset.width / canvasPreset.height);
   };
 
-  const wrapText = (
+  const drawMotionEditor = (
     ctx: CanvasRenderingContext2D,
-    text: string,
-    x: number,
-    y: number,
-    maxWidth: number,
-    lineHeight: number
+    canvas: HTMLCanvasElement,
+    visual: SceneVisual,
+    scene: Scene
   ) => {
-    const words = text.split(/\s+/);
-    let line = "";
-    let currentY = y;
-    for (let n = 0; n < words.length; n++) {
-      const testLine = line ? `${line} ${words[n]}` : words[n];
-      const metrics = ctx.measureText(testLine);
-      if (metrics.width > maxWidth && n > 0) {
-        ctx.fillText(line, x, currentY);
-        line = words[n];
-        currentY += lineHeight;
-      } else {
-        line = testLine;
+    const { width, height } = canvas;
+    const source = visualSize(visual);
+    const layout = containLayout(source.width, source.height, width, height);
+    ctx.save();
+    ctx.fillStyle = "#020409";
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(visual, layout.dx, layout.dy, layout.drawWidth, layout.drawHeight);
+    ctx.fillStyle = "rgba(2, 4, 9, 0.45)";
+    ctx.fillRect(layout.dx, layout.dy, layout.drawWidth, layout.drawHeight);
+    if (scene.motion) {
+      const motion = canvasMotion(scene.motion, visual);
+      const handle = Math.max(8, width * 0.008);
+      const entries: [CropRect, string, string][] = [
+        [motion.start, "#22c55e", "Inicio"],
+        [motion.end, scene.accentColor, "Fin"]
+      ];
+      ctx.font = `600 ${Math.max(16, width * 0.014)}px "Inter", sans-serif`;
+      ctx.textBaseline = "top";
+      for (const [rect, color, label] of entries) {
+        const x = layout.dx + rect.x * layout.drawWidth;
+        const y = layout.dy + rect.y * layout.drawHeight;
+        const w = rect.width * layout.drawWidth;
+        const h = rect.height * layout.drawHeight;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = Math.max(2, width * 0.002);
+        ctx.strokeRect(x, y, w, h);
+        ctx.fillStyle = color;
+        for (const [cx, cy] of [
+          [x, y],
+          [x + w, y],
+          [x, y + h],
+          [x + w, y + h]
+        ]) {
+          ctx.fillRect(cx - handle / 2, cy - handle / 2, handle, handle);
+        }
+        ctx.fillText(label, x + handle, y + handle);
       }
     }
-    if (line) {
-      ctx.fillText(line, x, currentY);
-    }
+    ctx.restore();
   };
 
-  const drawSceneFrame = (
+  const exportPresetOptions = useMemo(
+    () =>
+      canvasPresets.some(({ label }) => label === canvasPreset.label)
+        ? canvasPresets
+        : [...canvasPresets, canvasPreset],
+    [canvasPreset]
+  );
+
+  // The formats the focal point is framed for: the queued ones plus the current one.
+  const framingPresets = useMemo(
+    () => [
+      canvasPreset,
+      ...exportPresetOptions.filter(
+        ({ label }) => label !== canvasPreset.label && queuePresetLabels.includes(label)
+      )
+    ],
+    [canvasPreset, exportPresetOptions, queuePresetLabels]
+  );
+
+  const drawFocusEditor = (
     ctx: CanvasRenderingContext2D,
     canvas: HTMLCanvasElement,
-    meta: SceneMeta,
-    elapsed: number,
-    total: number
+    visual: SceneVisual,
+    scene: Scene
   ) => {
-    const { image, scene } = meta;
     const { width, height } = canvas;
+    const source = visualSize(visual);
+    const layout = containLayout(source.width, source.height, width, height);
+    const focus = scene.focalPoint ?? { x: 0.5, y: 0.5 };
     ctx.save();
     ctx.fillStyle = "#020409";
     ctx.fillRect(0, 0, width, height);
-    const imgRatio = image.width / image.height;
-    const canvasRatio = width / height;
-    let drawWidth = width;
-    let drawHeight = height;
-    if (imgRatio > canvasRatio) {
-      drawHeight = width / imgRatio;
+    ctx.drawImage(visual, layout.dx, layout.dy, layout.drawWidth, layout.drawHeight);
+    ctx.fillStyle = "rgba(2, 4, 9, 0.45)";
+    ctx.fillRect(layout.dx, layout.dy, layout.drawWidth, layout.drawHeight);
+    ctx.font = `600 ${Math.max(16, width * 0.014)}px "Inter", sans-serif`;
+    ctx.textBaseline = "top";
+    ctx.lineWidth = Math.max(2, width * 0.002);
+    framingPresets.forEach((preset, index) => {
+      const rect = coverCrop(source.width, source.height, preset.width, preset.height, focus);
+      const color = FRAMING_COLORS[index % FRAMING_COLORS.length];
+      const x = layout.dx + rect.x * layout.drawWidth;
+      const y = layout.dy + rect.y * layout.drawHeight;
+      ctx.strokeStyle = color;
+      ctx.strokeRect(x, y, rect.width * layout.drawWidth, rect.height * layout.drawHeight);
+      ctx.fillStyle = color;
+      ctx.fillText(preset.label, x + 8, y + 8 + index * Math.max(20, width * 0.018));
+    });
+    const cx = layout.dx + focus.x * layout.drawWidth;
+    const cy = layout.dy + focus.y * layout.drawHeight;
+    const arm = Math.max(14, width * 0.015);
+    ctx.strokeStyle = "#f8fafc";
+    ctx.beginPath();
+    ctx.moveTo(cx - arm, cy);
+    ctx.lineTo(cx + arm, cy);
+    ctx.moveTo(cx, cy - arm);
+    ctx.lineTo(cx, cy + arm);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(cx, cy, arm * 0.6, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const selectedAudioAssetId = selectedScene?.audioAssetId;
+
+  useEffect(() => {
+    if (!selectedAudioAssetId) {
+      setSelectedAudioBuffer(null);
+      return;
+    }
+    let cancelled = false;
+    assetBytes(selectedAudioAssetId)
+      .then(decodeAudio)
+      .then((buffer) => {
+        if (!cancelled) setSelectedAudioBuffer(buffer);
+      })
+      .catch((error) => console.error("No se pudo analizar el audio", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedAudioAssetId]);
+
+  const selectedAudioEdit = selectedScene ? sceneAudioEdit(selectedScene) : undefined;
+
+  const selectedAudioPeaks = useMemo(
+    () => (selectedAudioBuffer ? computePeaks(selectedAudioBuffer, 320) : null),
+    [selectedAudioBuffer]
+  );
+
+  useEffect(() => {
+    const cache = sceneVisualsRef.current;
+    const live = new Set<string>();
+    const allScenes = withIntroOutro(scenes, { intro, outro });
+    const requested = new Set<Scene>();
+    let changed = false;
+    for (const scene of allScenes) {
+      const source = sceneVisualSource(scene, canvasPreset);
+      if (!source) continue;
+      live.add(scene.id);
+      const cached = cache.get(scene.id);
+      if (cached?.source === source) continue;
+      // The same image keeps showing while it is decoded at a new size.
+      const resized =
+        cached !== undefined && cached.source.startsWith(`${scene.imageAssetId}@`);
+      if (!resized) releaseSceneVisual(cached?.visual ?? null);
+      cache.set(scene.id, { source, visual: resized ? cached.visual : null });
+      changed = true;
+      requested.add(scene);
+    }
+    // A larger decode closes the bitmap other scenes with that image hold, so
+    // they load it again as well and get the new one.
+    const requestedImages = new Set([...requested].map((scene) => scene.imageAssetId));
+    for (const scene of allScenes) {
+      const source = cache.get(scene.id)?.source;
+      const sharesImage = !scene.clip && requestedImages.has(scene.imageAssetId);
+      if (!source || !(requested.has(scene) || sharesImage)) continue;
+      loadSceneVisual(scene, canvasPreset)
+        .then((visual) => {
+          if (cache.get(scene.id)?.source !== source) {
+            releaseSceneVisual(visual);
+            return;
+          }
+          cache.set(scene.id, { source, visual });
+          setSceneVisuals(new Map(cache));
+        })
+        .catch((error) => console.error("No se pudo cargar la vista previa", error));
+    }
+    cache.forEach((cached, id) => {
+      if (live.has(id)) return;
+      releaseSceneVisual(cached.visual);
+      cache.delete(id);
+      changed = true;
+    });
+    if (changed) setSceneVisuals(new Map(cache));
+  }, [scenes, intro, outro, canvasPreset]);
+
+  useEffect(() => {
+    const snapshots = [
+      { scenes, settings },
+      ...[...history.past, ...history.future].map(({ snapshot }) => snapshot)
+    ];
+    const live = new Set([
+      ...snapshots.flatMap(snapshotAssetIds),
+      ...settingsAssetIds({ fonts })
+    ]);
+    releaseUnusedAssets(live);
+    releaseLayerImages(live);
+  }, [scenes, settings, history, fonts]);
+
+  useEffect(() => {
+    const cache = sceneVisualsRef.current;
+    return () => {
+      haltPlayback();
+      exportAbortRef.current?.abort();
+      cache.forEach((cached) => releaseSceneVisual(cached.visual));
+      cache.clear();
+    };
+  }, []);
+
+  // Null until every rendered scene has its image, clip or logo loaded.
+  const previewMetas = useMemo(() => {
+    const visuals: (SceneVisual | undefined)[] = [];
+    for (const entry of timeline.entries) {
+      const visual = sceneVisuals.get(entry.scene.id)?.visual;
+      if (!visual && hasSceneVisual(entry.scene)) return null;
+      visuals.push(visual ?? undefined);
+    }
+    return buildSceneMetas(timeline.entries, visuals, captionStyle);
+  }, [timeline, captionStyle, sceneVisuals]);
+
+  const previewTime = Math.min(playhead, timeline.total);
+
+  const drawPreviewAt = async (time: number) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const request = ++previewDrawRef.current;
+    if (motionEditing && selectedScene && previewVisual) {
+      drawMotionEditor(ctx, canvas, previewVisual, selectedScene);
+      return;
+    }
+    if (focusEditing && selectedScene && previewVisual) {
+      drawFocusEditor(ctx, canvas, previewVisual, selectedScene);
+      return;
+    }
+    if (!previewMetas || previewMetas.length === 0) {
+      ctx.fillStyle = "#020409";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+    await seekTimelineClips(previewMetas, time);
+    if (request !== previewDrawRef.current) return;
+    const scratch =
+      previewScratchRef.current?.outgoing.width === canvas.width &&
+      previewScratchRef.current.outgoing.height === canvas.height
+        ? previewScratchRef.current
+        : createRenderScratch(canvas.width, canvas.height);
+    previewScratchRef.current = scratch;
+    drawTimelineFrame(
+      ctx,
+      canvas,
+      previewMetas,
+      time,
+      scratch,
+      watermark,
+      resolveLayerImage,
+      chrome
+    );
+    const visibleScene = previewMetas[findMetaIndexAt(previewMetas, time)].scene;
+    const selectedLayer =
+      (visibleScene.id === selectedSceneId
+        ? visibleScene.layers?.find((layer) => layer.id === selectedLayerId)
+        : undefined) ?? (watermark?.id === selectedLayerId ? watermark : undefined);
+    if (selectedLayer && !playbackRef.current) {
+      drawLayerOutline(ctx, selectedLayer, canvas.width, canvas.height, "#f8fafc");
+    }
+    drawSafeAreaGuides(ctx, canvas.width, canvas.height, safeAreaGuides);
+  };
+
+  const drawPreviewRef = useRef(drawPreviewAt);
+  useEffect(() => {
+    drawPreviewRef.current = drawPreviewAt;
+  });
+
+  useEffect(() => {
+    if (isPlaying) return;
+    drawPreviewRef.current(previewTime).catch((error) =>
+      console.error("No se pudo dibujar la vista previa", error)
+    );
+  }, [
+    previewMetas,
+    previewTime,
+    motionEditing,
+    focusEditing,
+    framingPresets,
+    canvasPreset,
+    fonts,
+    watermark,
+    chrome,
+    selectedSceneId,
+    selectedLayerId,
+    layerImagesVersion,
+    safeAreaGuides,
+    isPlaying
+  ]);
+
+  const loadPreviewMix = async () => {
+    const cached = previewMixRef.current;
+    if (cached?.scenes === renderScenes && cached.music === music) return cached.buffer;
+    const buffer = await mixTimelineAudio({
+      entries: timeline.entries,
+      sources: await decodeSceneAudio(renderScenes),
+      total: timeline.total,
+      music,
+      musicBuffer: music ? await decodeMusicBed(music) : null
+    });
+    previewMixRef.current = { scenes: renderScenes, music, buffer };
+    return buffer;
+  };
+
+  const schedulePlaybackFrame = (playback: Playback) => {
+    playback.frame = requestAnimationFrame(async () => {
+      if (playbackRef.current !== playback) return;
+      const time = playback.offset + playback.context.currentTime - playback.startedAt;
+      if (time >= playback.mix.duration) {
+        haltPlayback();
+        setIsPlaying(false);
+        setPlayhead(playback.mix.duration);
+        return;
+      }
+      setPlayhead(time);
+      try {
+        await drawPreviewRef.current(time);
+      } catch (error) {
+        console.error("No se pudo dibujar la vista previa", error);
+      }
+      if (playbackRef.current === playback) {
+        schedulePlaybackFrame(playback);
+      }
+    });
+  };
+
+  const playFrom = (context: AudioContext, mix: AudioBuffer, offset: number) => {
+    haltPlayback();
+    const source = context.createBufferSource();
+    source.buffer = mix;
+    source.connect(context.destination);
+    const startedAt = context.currentTime;
+    source.start(startedAt, offset);
+    const playback: Playback = { context, source, mix, startedAt, offset, frame: 0 };
+    playbackRef.current = playback;
+    setMotionEditing(false);
+    setFocusEditing(false);
+    setIsPlaying(true);
+    schedulePlaybackFrame(playback);
+  };
+
+  /** Stops audio and the frame loop; returns where playback was. */
+  const haltPlayback = () => {
+    const playback = playbackRef.current;
+    if (!playback) return null;
+    playbackRef.current = null;
+    cancelAnimationFrame(playback.frame);
+    playback.source.stop();
+    return playback.offset + playback.context.currentTime - playback.startedAt;
+  };
+
+  const startPlayback = async (from: number) => {
+    if (!previewMetas || timeline.total <= 0) return;
+    try {
+      const context = await ensureAudioContext();
+      const mix = await loadPreviewMix();
+      playFrom(context, mix, from >= mix.duration ? 0 : from);
+    } catch (error) {
+      console.error("Error al reproducir la vista previa", error);
+      setStatusTone("error");
+      setStatusMessage("No se pudo preparar la mezcla de audio.");
+    }
+  };
+
+  const seekPreview = (time: number) => {
+    const clamped = Math.min(Math.max(0, time), timeline.total);
+    setPlayhead(clamped);
+    const playback = playbackRef.current;
+    if (playback) {
+      playFrom(playback.context, playback.mix, clamped);
+      return;
+    }
+    const entry = timeline.entries[findMetaIndexAt(timeline.entries, clamped)];
+    // The intro and outro are edited with the export settings, not selected.
+    if (entry && entry.scene !== intro && entry.scene !== outro) {
+      setSelectedSceneId(entry.scene.id);
+    }
+  };
+
+  const pausePlayback = () => {
+    const time = haltPlayback();
+    if (time === null) return;
+    setIsPlaying(false);
+    seekPreview(time);
+  };
+
+  const togglePlayback = () => {
+    if (isPlaying) {
+      pausePlayback();
     } else {
-      drawWidth = height * imgRatio;
-    }
-    const dx = (width - drawWidth) / 2;
-    const dy = (height - drawHeight) / 2;
-    ctx.drawImage(image, dx, dy, drawWidth, drawHeight);
-
-    if (scene.dialogue.trim()) {
-      const captionHeight = height * 0.28;
-      const gradient = ctx.createLinearGradient(0, height - captionHeight, 0, height);
-      gradient.addColorStop(0, "rgba(0,0,0,0)");
-      gradient.addColorStop(0.4, "rgba(0,0,0,0.45)");
-      gradient.addColorStop(1, "rgba(0,0,0,0.75)");
-      ctx.fillStyle = gradient;
-      ctx.fillRect(0, height - captionHeight, width, captionHeight);
-
-      ctx.textAlign = "center";
-      ctx.textBaseline = "middle";
-      ctx.fillStyle = "#f8fafc";
-      ctx.font = `600 ${Math.max(28, width * 0.026)}px "Inter", sans-serif`;
-      wrapText(
-        ctx,
-        scene.dialogue.trim(),
-        width / 2,
-        height - captionHeight / 2,
-        width * 0.7,
-        Math.max(34, width * 0.035)
-      );
+      startPlayback(previewTime);
     }
+  };
 
-    const progressWidth = width * 0.6;
-    const progressHeight = Math.max(10, height * 0.015);
-    const progressX = (width - progressWidth) / 2;
-    const progressY = height - progressHeight - Math.max(40, height * 0.04);
-    ctx.fillStyle = "rgba(255, 255, 255, 0.25)";
-    ctx.fillRect(progressX, progressY, progressWidth, progressHeight);
-    ctx.fillStyle = scene.accentColor;
-    const completion = total > 0 ? Math.min(1, elapsed / total) : 1;
-    ctx.fillRect(progressX, progressY, progressWidth * completion, progressHeight);
+  const pausePlaybackRef = useRef(pausePlayback);
+  useEffect(() => {
+    pausePlaybackRef.current = pausePlayback;
+  });
 
-    ctx.restore();
+  // The cached mix no longer matches once scenes or music change.
+  useEffect(() => {
+    pausePlaybackRef.current();
+  }, [timeline, music]);
+
+  const sceneStartTime = (entry: TimelineEntry) => entry.start + entry.transitionIn;
+
+  const jumpToScene = (sceneId: string) => {
+    setSelectedSceneId(sceneId);
+    const entry = timeline.entries.find((item) => item.scene.id === sceneId);
+    if (entry) {
+      seekPreview(sceneStartTime(entry));
+    }
   };
 
-  const generateVideo = async () => {
-    if (isGenerating) return;
-    if (!canvasRef.current) {
+  const stepScene = (direction: 1 | -1) => {
+    const entries = timeline.entries;
+    if (entries.length === 0) return;
+    const index = findMetaIndexAt(entries, previewTime);
+    const target =
+      direction === 1
+        ? entries[index + 1]
+        : previewTime - sceneStartTime(entries[index]) > 0.5
+        ? entries[index]
+        : entries[index - 1] ?? entries[index];
+    if (target) {
+      seekPreview(sceneStartTime(target));
+    }
+  };
+
+  const playScene = (sceneId: string) => {
+    const entry = timeline.entries.find((item) => item.scene.id === sceneId);
+    if (!entry) return;
+    setSelectedSceneId(sceneId);
+    setPlayhead(entry.start);
+    startPlayback(entry.start);
+  };
+
+  const selectLayer = (layerId: string | null) => {
+    setSelectedLayerId(layerId);
+    const layer = selectedScene?.layers?.find((item) => item.id === layerId);
+    const entry = timeline.entries.find((item) => item.scene.id === selectedScene?.id);
+    if (!layer || !entry || playbackRef.current) return;
+    const elapsed = previewTime - entry.start;
+    if (elapsed < layer.enter || (layer.exit !== undefined && elapsed >= layer.exit)) {
+      setPlayhead(Math.min(entry.start + layer.enter, timeline.total));
+    }
+  };
+
+  useEffect(() => {
+    const sources = [
+      ...renderScenes.flatMap((scene) => layerImageSources(scene.layers)),
+      ...layerImageSources(watermark ? [watermark] : [])
+    ];
+    if (sources.every((source) => layerImageCache.has(source))) return;
+    let cancelled = false;
+    preloadLayerImages(sources)
+      .then(() => {
+        if (!cancelled) setLayerImagesVersion((prev) => prev + 1);
+      })
+      .catch((error) => console.error("No se pudieron cargar las capas", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [renderScenes, watermark]);
+
+  useEffect(() => {
+    setMotionEditing(false);
+    setFocusEditing(false);
+    setSelectedLayerId(null);
+  }, [selectedSceneId]);
+
+  const updateSceneLayers = (
+    sceneId: string,
+    command: HistoryCommand,
+    update: (layers: SceneLayer[]) => SceneLayer[]
+  ) => {
+    commitScenes(command, (prev) =>
+      prev.map((scene) =>
+        scene.id === sceneId ? { ...scene, layers: update(scene.layers ?? []) } : scene
+      )
+    );
+  };
+
+  const addImageLayer = async (sceneId: string, file: File) => {
+    try {
+      const assetId = await putAsset(file);
+      const image = await loadLayerImage(assetId);
+      const layers = scenes.find((scene) => scene.id === sceneId)?.layers ?? [];
+      const layer = createImageLayer(layers, assetId, file.name, image.width / image.height);
+      updateSceneLayers(sceneId, { label: "Añadir capa" }, (prev) => [...prev, layer]);
+      setSelectedLayerId(layer.id);
+    } catch (error) {
+      console.error("Error al cargar la capa de imagen", error);
       setStatusTone("error");
-      setStatusMessage("Necesitamos un canvas disponible para renderizar.");
+      setStatusMessage("No se pudo cargar la imagen de la capa.");
+    }
+  };
+
+  const addGeneratedLayer = (sceneId: string, kind: "text" | "shape") => {
+    const layers = scenes.find((scene) => scene.id === sceneId)?.layers ?? [];
+    const layer = kind === "text" ? createTextLayer(layers) : createShapeLayer(layers);
+    updateSceneLayers(sceneId, { label: "Añadir capa" }, (prev) => [...prev, layer]);
+    setSelectedLayerId(layer.id);
+  };
+
+  const changeLayer = (layerId: string, changes: LayerChanges) => {
+    if (watermark?.id === layerId) {
+      commitSettings({ label: "Editar marca de agua", coalesceKey: "watermark" }, (prev) =>
+        prev.watermark
+          ? { ...prev, watermark: applyLayerChanges(prev.watermark, changes) as ImageLayer }
+          : prev
+      );
       return;
     }
-    const scenesReady = scenes.filter((scene) => scene.imageDataUrl);
-    if (scenesReady.length === 0) {
+    if (!selectedScene) return;
+    const command = { label: "Editar capa", coalesceKey: `layer:${layerId}` };
+    updateSceneLayers(selectedScene.id, command, (layers) =>
+      layers.map((layer) => (layer.id === layerId ? applyLayerChanges(layer, changes) : layer))
+    );
+  };
+
+  const removeLayer = (sceneId: string, layerId: string) => {
+    updateSceneLayers(sceneId, { label: "Eliminar capa" }, (layers) =>
+      layers.filter((layer) => layer.id !== layerId)
+    );
+    setSelectedLayerId((prev) => (prev === layerId ? null : prev));
+  };
+
+  const reorderLayer = (sceneId: string, layerId: string, direction: 1 | -1) => {
+    updateSceneLayers(sceneId, { label: "Reordenar capas" }, (layers) => {
+      const ordered = sortLayers(layers);
+      const index = ordered.findIndex((layer) => layer.id === layerId);
+      const swapWith = ordered[index + direction];
+      if (index === -1 || !swapWith) return layers;
+      const current = ordered[index];
+      return layers.map((layer) =>
+        layer.id === current.id
+          ? { ...layer, z: swapWith.z }
+          : layer.id === swapWith.id
+          ? { ...layer, z: current.z }
+          : layer
+      );
+    });
+  };
+
+  const handleWatermarkUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const assetId = await putAsset(file);
+      const image = await loadLayerImage(assetId);
+      const layer = createWatermarkLayer(assetId, file.name, image.width / image.height);
+      commitSettings({ label: "Cambiar marca de agua" }, (prev) => ({ ...prev, watermark: layer }));
+      setSelectedLayerId(layer.id);
+    } catch (error) {
+      console.error("Error al cargar la marca de agua", error);
+      setStatusTone("error");
+      setStatusMessage("No se pudo cargar la marca de agua.");
+    }
+  };
+
+  const bookendNames = { intro: "intro", outro: "cierre" };
+
+  const setBookend = (which: "intro" | "outro", bookend: Scene | undefined) =>
+    commitSettings(
+      { label: `${bookend ? "Añadir" : "Quitar"} ${bookendNames[which]}` },
+      (prev) => ({ ...prev, [which]: bookend })
+    );
+
+  const updateBookend = (
+    which: "intro" | "outro",
+    changes: Partial<Scene>,
+    command: HistoryCommand = {
+      label: `Editar ${bookendNames[which]}`,
+      coalesceKey: `bookend:${which}`
+    }
+  ) =>
+    commitSettings(command, (prev) => {
+      const bookend = prev[which];
+      return bookend ? { ...prev, [which]: { ...bookend, ...changes } } : prev;
+    });
+
+  const handleBookendLogo = async (which: "intro" | "outro", file: File) => {
+    try {
+      const imageAssetId = await putAsset(file);
+      updateBookend(
+        which,
+        { imageAssetId, imageName: file.name },
+        { label: `Cambiar logo de ${bookendNames[which]}` }
+      );
+    } catch (error) {
+      console.error("Error al cargar el logo", error);
       setStatusTone("error");
-      setStatusMessage("Agrega al menos una escena con imagen para generar el video.");
+      setStatusMessage("No se pudo cargar el logo.");
+    }
+  };
+
+  const updateChrome = (changes: Partial<OnScreenChrome>) =>
+    commitSettings({ label: "Cambiar indicadores", coalesceKey: "chrome" }, (prev) => ({
+      ...prev,
+      chrome: { ...prev.chrome, ...changes }
+    }));
+
+  const updateSceneMotion = (sceneId: string, motion: SceneMotion | undefined) => {
+    commitScenes({ label: "Editar movimiento", coalesceKey: `motion:${sceneId}` }, (prev) =>
+      prev.map((scene) => (scene.id === sceneId ? { ...scene, motion } : scene))
+    );
+  };
+
+  const handleSceneFitChange = (sceneId: string, fit: SceneFit) => {
+    commitScenes({ label: "Cambiar encuadre" }, (prev) =>
+      prev.map((scene) =>
+        scene.id === sceneId ? { ...scene, fit: fit === "contain" ? undefined : fit } : scene
+      )
+    );
+  };
+
+  const updateSceneFocalPoint = (sceneId: string, focalPoint: FocalPoint | undefined) => {
+    commitScenes({ label: "Mover punto focal", coalesceKey: `focus:${sceneId}` }, (prev) =>
+      prev.map((scene) => (scene.id === sceneId ? { ...scene, focalPoint } : scene))
+    );
+  };
+
+  const handleTransitionTypeChange = (scene: Scene, type: TransitionType) => {
+    commitScenes({ label: "Cambiar transición" }, (prev) =>
+      prev.map((item) =>
+        item.id === scene.id
+          ? {
+              ...item,
+              transition:
+                type === "none"
+                  ? undefined
+                  : { ...(item.transition ?? createTransition(type)), type }
+            }
+          : item
+      )
+    );
+  };
+
+  const handleTransitionChange = (
+    sceneId: string,
+    changes: { duration?: number; color?: string }
+  ) => {
+    const command = { label: "Ajustar transición", coalesceKey: `transition:${sceneId}` };
+    commitScenes(command, (prev) =>
+      prev.map((scene) =>
+        scene.id === sceneId && scene.transition
+          ? { ...scene, transition: { ...scene.transition, ...changes } }
+          : scene
+      )
+    );
+  };
+
+  const applyRandomMotion = (sceneId: string) => {
+    if (!previewVisual) return;
+    updateSceneMotion(
+      sceneId,
+      randomGentleMotion(
+        visualSize(previewVisual).width / visualSize(previewVisual).height,
+        canvasPreset.width / canvasPreset.height
+      )
+    );
+  };
+
+  const handleMotionEasingChange = (scene: Scene, easing: MotionEasing) => {
+    if (!scene.motion) return;
+    updateSceneMotion(scene.id, { ...scene.motion, easing });
+  };
+
+  const toCanvasPoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const bounds = canvas.getBoundingClientRect();
+    const scale = canvas.width / bounds.width;
+    return {
+      x: (event.clientX - bounds.left) * scale,
+      y: (event.clientY - bounds.top) * scale,
+      scale
+    };
+  };
+
+  const toImagePoint = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    if (!previewVisual) return null;
+    const { x: canvasX, y: canvasY, scale } = toCanvasPoint(event);
+    const source = visualSize(previewVisual);
+    const layout = containLayout(source.width, source.height, canvas.width, canvas.height);
+    return {
+      x: (canvasX - layout.dx) / layout.drawWidth,
+      y: (canvasY - layout.dy) / layout.drawHeight,
+      toleranceX: (MOTION_HANDLE_RADIUS * scale) / layout.drawWidth,
+      toleranceY: (MOTION_HANDLE_RADIUS * scale) / layout.drawHeight
+    };
+  };
+
+  const handleMotionPointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!motionEditing || !selectedScene?.motion) return;
+    const point = toImagePoint(event);
+    if (!point || !previewVisual) return;
+    const motion = canvasMotion(selectedScene.motion, previewVisual);
+    const targets: ("end" | "start")[] = ["end", "start"];
+    for (const target of targets) {
+      const rect = motion[target];
+      const corners = [
+        { x: rect.x, y: rect.y },
+        { x: rect.x + rect.width, y: rect.y },
+        { x: rect.x, y: rect.y + rect.height },
+        { x: rect.x + rect.width, y: rect.y + rect.height }
+      ];
+      const cornerIndex = corners.findIndex(
+        (corner) =>
+          Math.abs(corner.x - point.x) <= point.toleranceX &&
+          Math.abs(corner.y - point.y) <= point.toleranceY
+      );
+      if (cornerIndex !== -1) {
+        motionDragRef.current = {
+          target,
+          mode: "resize",
+          anchor: corners[3 - cornerIndex],
+          last: point
+        };
+      } else if (
+        point.x >= rect.x &&
+        point.x <= rect.x + rect.width &&
+        point.y >= rect.y &&
+        point.y <= rect.y + rect.height
+      ) {
+        motionDragRef.current = { target, mode: "move", anchor: point, last: point };
+      } else {
+        continue;
+      }
+      event.currentTarget.setPointerCapture(event.pointerId);
       return;
     }
+  };
+
+  const handleMotionPointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = motionDragRef.current;
+    if (!drag || !selectedScene?.motion) return;
+    const point = toImagePoint(event);
+    if (!point || !previewVisual) return;
+    const motion = canvasMotion(selectedScene.motion, previewVisual);
+    const rect = motion[drag.target];
+    const next =
+      drag.mode === "move"
+        ? moveRect(rect, point.x - drag.last.x, point.y - drag.last.y)
+        : resizeRectFromAnchor(rect, drag.anchor, point);
+    drag.last = point;
+    updateSceneMotion(selectedScene.id, { ...motion, [drag.target]: next });
+  };
+
+  const handleFocusPointer = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!selectedScene) return;
+    const point = toImagePoint(event);
+    if (!point) return;
+    updateSceneFocalPoint(selectedScene.id, {
+      x: Math.min(1, Math.max(0, point.x)),
+      y: Math.min(1, Math.max(0, point.y))
+    });
+  };
+
+  const handleLayerPointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const ctx = canvas.getContext("2d");
+    if (!ctx || !selectedScene) return;
+    const point = toCanvasPoint(event);
+    const candidates = [...(watermark ? [watermark] : []), ...(selectedScene.layers ?? [])];
+    const hit = hitTestLayers(ctx, candidates, point, canvas.width, canvas.height);
+    setSelectedLayerId(hit?.id ?? null);
+    if (!hit) return;
+    layerDragRef.current = {
+      layerId: hit.id,
+      offsetX: point.x - hit.x * canvas.width,
+      offsetY: point.y - hit.y * canvas.height
+    };
+    canvas.setPointerCapture(event.pointerId);
+  };
+
+  const handleLayerPointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = layerDragRef.current;
+    if (!drag) return;
+    const canvas = event.currentTarget;
+    const point = toCanvasPoint(event);
+    changeLayer(drag.layerId, {
+      x: Math.min(1, Math.max(0, (point.x - drag.offsetX) / canvas.width)),
+      y: Math.min(1, Math.max(0, (point.y - drag.offsetY) / canvas.height))
+    });
+  };
+
+  const handleCanvasPointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (motionEditing) {
+      handleMotionPointerDown(event);
+    } else if (focusEditing) {
+      focusDragRef.current = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+      handleFocusPointer(event);
+    } else {
+      handleLayerPointerDown(event);
+    }
+  };
+
+  const handleCanvasPointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (motionDragRef.current) {
+      handleMotionPointerMove(event);
+    } else if (focusDragRef.current) {
+      handleFocusPointer(event);
+    } else if (layerDragRef.current) {
+      handleLayerPointerMove(event);
+    }
+  };
+
+  const handleCanvasPointerUp = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!motionDragRef.current && !focusDragRef.current && !layerDragRef.current) return;
+    motionDragRef.current = null;
+    focusDragRef.current = false;
+    layerDragRef.current = null;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+  };
+
+  /**
+   * Snapshots the project and loads what only the main thread can: clip videos
+   * and the audio mix. Every export size in a queue renders from the same assets.
+   */
+  const prepareExport = async (
+    layout: Timeline,
+    clipVideos: HTMLVideoElement[],
+    timer: RenderTimer,
+    signal: AbortSignal
+  ): Promise<ExportAssets> => {
+    timer.begin("Carga de recursos");
+    const scenesReady = layout.entries.map(({ scene }) => scene);
+    const clips = new Map<string, HTMLVideoElement>();
+    for (const scene of scenesReady) {
+      if (!scene.clip) continue;
+      const video = await loadClipVideo(scene.clip);
+      clipVideos.push(video);
+      clips.set(scene.id, video);
+    }
+    throwIfCancelled(signal);
+
+    const sources = await decodeSceneAudio(scenesReady);
+    const musicBuffer = music ? await decodeMusicBed(music) : null;
+    throwIfCancelled(signal);
+
+    const totalTimelineDuration = layout.total;
+    if (totalTimelineDuration <= 0) {
+      throw new Error("La duración total del video es inválida.");
+    }
+
+    setStatusMessage("Mezclando audio...");
+    timer.begin("Mezcla de audio");
+    const mix = await mixTimelineAudio({
+      entries: layout.entries,
+      sources,
+      total: totalTimelineDuration,
+      music,
+      musicBuffer
+    });
+    throwIfCancelled(signal);
+    const subtitleTrack = buildSubtitleTrack(layout.entries);
+    return {
+      job: {
+        timeline: layout,
+        assets: renderAssets(scenesReady, { fonts, watermark }),
+        captionStyle,
+        watermark,
+        chrome,
+        fonts,
+        fps,
+        format: exportFormat,
+        subtitles:
+          embedSubtitles && formatSupportsSubtitles && subtitleTrack.length > 0
+            ? toVtt(subtitleTrack)
+            : undefined
+      },
+      mix,
+      clips
+    };
+  };
+
+  const renderExport = (
+    assets: ExportAssets,
+    { width, height }: { width: number; height: number },
+    timer: RenderTimer,
+    signal: AbortSignal,
+    onProgress: (progress: RenderProgress) => void
+  ) => {
+    const { entries } = assets.job.timeline;
+    const timeline = frameTimeline(assets.job.timeline, canvasPreset, { width, height });
+    let reportedAt = 0;
+    timer.begin(encodeStageLabels.frames);
+    return renderInBackground({
+      // The mix is copied per render: transferring it hands the buffers to the worker.
+      job: { ...assets.job, timeline, width, height, audio: transferableAudio(assets.mix) },
+      clipVideos: assets.clips,
+      signal,
+      onProgress: ({ stage, frame, totalFrames }) => {
+        timer.begin(encodeStageLabels[stage]);
+        const now = performance.now();
+        // Reporting every frame would re-render the page dozens of times a second.
+        if (stage === "frames" && now - reportedAt < RENDER_PROGRESS_INTERVAL_MS) return;
+        reportedAt = now;
+        onProgress({
+          stage,
+          scene: findMetaIndexAt(entries, (frame - 1) / assets.job.fps) + 1,
+          sceneCount: entries.length,
+          frame,
+          totalFrames,
+          eta: stage === "frames" ? timer.remaining(frame, totalFrames) : undefined
+        });
+      }
+    });
+  };
+
+  /** The timeline to export, or null after reporting why nothing can be exported. */
+  const exportableTimeline = () => {
+    if (!isOfflineEncodingSupported() || !isBackgroundRenderSupported()) {
+      setStatusTone("error");
+      setStatusMessage(
+        "Tu navegador no soporta WebCodecs. Usa una versión reciente de Chrome o Edge."
+      );
+      return null;
+    }
+    if (timeline.entries.length === 0) {
+      setStatusTone("error");
+      setStatusMessage(
+        "Agrega al menos una escena con imagen, clip o tarjeta de título para generar el video."
+      );
+      return null;
+    }
+    return timeline;
+  };
+
+  const generateVideo = async () => {
+    if (isGenerating) return;
+    const layout = exportableTimeline();
+    if (!layout) return;
     setIsGenerating(true);
     setStatusTone("neutral");
     setStatusMessage("Preparando escenas y recursos...");
+    setRenderTimings([]);
 
+    const clipVideos: HTMLVideoElement[] = [];
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    const timer = createRenderTimer();
     try {
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext("2d");
-      if (!ctx) {
-        throw new Error("No se pudo obtener el contexto 2D");
+      const assets = await prepareExport(layout, clipVideos, timer, controller.signal);
+
+      setStatusMessage("Renderizando video con IA...");
+      const videoBlob = await renderExport(
+        assets,
+        canvasPreset,
+        timer,
+        controller.signal,
+        setRenderProgress
+      );
+      timer.end();
+      setRenderTimings(timer.timings());
+
+      const url = URL.createObjectURL(videoBlob);
+      if (generatedVideoUrl) {
+        URL.revokeObjectURL(generatedVideoUrl);
+      }
+      setGeneratedVideoUrl(url);
+      setGeneratedVideoFormat(exportFormat);
+      setStatusTone("success");
+      setStatusMessage("Video generado exitosamente.");
+    } catch (error) {
+      if (error instanceof RenderCancelledError) {
+        setStatusTone("neutral");
+        setStatusMessage(error.message);
+        return;
       }
-      const images = await Promise.all(
-        scenesReady.map((scene) => loadImage(scene.imageDataUrl as string))
+      console.error("Error al generar el video", error);
+      setStatusTone("error");
+      setStatusMessage(
+        error instanceof UnsupportedCodecError
+          ? error.message
+          : "Hubo un problema al generar el video."
       );
+    } finally {
+      clipVideos.forEach(releaseClipVideo);
+      exportAbortRef.current = null;
+      setRenderProgress(null);
+      setIsGenerating(false);
+    }
+  };
 
-      const audioCtx = new AudioContext();
-      await audioCtx.resume();
-      const destination = audioCtx.createMediaStreamDestination();
-      const metas: SceneMeta[] = [];
-      let audioTimelineCursor = audioCtx.currentTime + 0.4;
-
-      for (let i = 0; i < scenesReady.length; i++) {
-        const scene = scenesReady[i];
-        const image = images[i];
-        let duration = Math.max(scene.duration, DURATION_MIN);
-        let audioLength = 0;
-        let audioBuffer: AudioBuffer | null = null;
-
-        if (scene.audioArrayBuffer) {
-          const decoded = await audioCtx.decodeAudioData(
-            scene.audioArrayBuffer.slice(0)
-          );
-          audioBuffer = decoded;
-          audioLength = decoded.duration;
-          duration = Math.max(duration, audioLength);
-        } else {
-          audioLength = duration;
-          audioBuffer = audioCtx.createBuffer(
-            1,
-            Math.max(1, Math.floor(duration * audioCtx.sampleRate)),
-            audioCtx.sampleRate
-          );
-        }
+  const cancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
 
-        const source = audioCtx.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(destination);
-        source.start(audioTimelineCursor);
-        metas.push({
-          scene,
-          image,
-          duration,
-          audioLength
-        });
-        audioTimelineCursor += duration;
-      }
+  const updateExportJob = (jobId: string, changes: Partial<ExportJob>) => {
+    setExportJobs((prev) => prev.map((job) => (job.id === jobId ? { ...job, ...changes } : job)));
+  };
 
-      const totalTimelineDuration = metas.reduce(
-        (acc, meta) => acc + meta.duration,
-        0
-      );
-      if (totalTimelineDuration <= 0) {
-        throw new Error("La duración total del video es inválida.");
-      }
+  const toggleQueuePreset = (label: string, queued: boolean) => {
+    setQueuePresetLabels((prev) =>
+      queued ? [...prev, label] : prev.filter((item) => item !== label)
+    );
+  };
 
-      const videoStream = canvas.captureStream(fps);
-      const combinedStream = new MediaStream([
-        ...videoStream.getVideoTracks(),
-        ...destination.stream.getAudioTracks()
-      ]);
-
-      const preferredMime =
-        "video/webm;codecs=vp9,opus";
-      const fallbackMime =
-        "video/webm;codecs=vp8,opus";
-      const mimeType = MediaRecorder.isTypeSupported(preferredMime)
-        ? preferredMime
-        : MediaRecorder.isTypeSupported(fallbackMime)
-        ? fallbackMime
-        : "video/webm";
-
-      const recorder = new MediaRecorder(combinedStream, {
-        mimeType,
-        videoBitsPerSecond: 6_000_000,
-        audioBitsPerSecond: 192_000
-      });
+  // Renders each queued format in turn, reusing the project snapshot and the
+  // audio mix.
+  const exportQueue = async () => {
+    if (isGenerating) return;
+    const presets = exportPresetOptions.filter(({ label }) => queuePresetLabels.includes(label));
+    if (presets.length === 0) {
+      setStatusTone("error");
+      setStatusMessage("Elige al menos un formato para la cola de exportación.");
+      return;
+    }
+    const layout = exportableTimeline();
+    if (!layout) return;
+    exportUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+    exportUrlsRef.current = [];
+    const jobs: ExportJob[] = presets.map((preset) => ({
+      id: createId(),
+      preset,
+      format: exportFormat,
+      status: "pending",
+      progress: 0
+    }));
+    setExportJobs(jobs);
+    setIsGenerating(true);
+    setStatusTone("neutral");
+    setStatusMessage("Preparando escenas y recursos...");
+    setRenderTimings([]);
 
-      const chunks: Blob[] = [];
-      recorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunks.push(event.data);
+    const clipVideos: HTMLVideoElement[] = [];
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    const timer = createRenderTimer();
+    let failed = 0;
+    try {
+      const assets = await prepareExport(layout, clipVideos, timer, controller.signal);
+      for (const [index, job] of jobs.entries()) {
+        const { label } = job.preset;
+        setStatusMessage(`Renderizando ${label} (${index + 1} de ${jobs.length})...`);
+        updateExportJob(job.id, { status: "rendering" });
+        try {
+          const videoBlob = await renderExport(
+            assets,
+            job.preset,
+            timer,
+            controller.signal,
+            (progress) => {
+              setRenderProgress(progress);
+              updateExportJob(job.id, { progress: progress.frame / progress.totalFrames });
+            }
+          );
+          const url = URL.createObjectURL(videoBlob);
+          exportUrlsRef.current.push(url);
+          updateExportJob(job.id, { status: "done", progress: 1, url });
+        } catch (error) {
+          if (error instanceof RenderCancelledError) throw error;
+          console.error(`Error al exportar ${label}`, error);
+          failed += 1;
+          updateExportJob(job.id, {
+            status: "error",
+            error:
+              error instanceof UnsupportedCodecError
+                ? error.message
+                : "No se pudo generar este formato."
+          });
         }
-      };
+      }
+      timer.end();
+      setRenderTimings(timer.timings());
+      setStatusTone(failed > 0 ? "error" : "success");
+      setStatusMessage(
+        failed > 0
+          ? `${failed} de ${jobs.length} formatos no se pudieron generar.`
+          : "Todos los formatos se generaron exitosamente."
+      );
+    } catch (error) {
+      const cancelled = error instanceof RenderCancelledError;
+      if (!cancelled) {
+        console.error("Error al preparar la cola de exportación", error);
+      }
+      setExportJobs((prev) =>
+        prev.map((job) =>
+          job.status === "pending" || job.status === "rendering"
+            ? { ...job, status: "error", error: cancelled ? "Cancelada" : undefined }
+            : job
+        )
+      );
+      setStatusTone(cancelled ? "neutral" : "error");
+      setStatusMessage(
+        cancelled
+          ? "La exportación se canceló."
+          : "Hubo un problema al preparar la exportación."
+      );
+    } finally {
+      clipVideos.forEach(releaseClipVideo);
+      exportAbortRef.current = null;
+      setRenderProgress(null);
+      setIsGenerating(false);
+    }
+  };
 
-      const recorderPromise = new Promise<Blob>((resolve) => {
-        recorder.onstop = async () => {
-          try {
-            await audioCtx.close();
-          } catch {
-            // ignore close errors
-          }
-          resolve(new Blob(chunks, { type: mimeType }));
-        };
+  const saveProject = async () => {
+    try {
+      const blob = await serializeProject({
+        scenes,
+        canvasPreset,
+        fps,
+        exportFormat,
+        captionStyle,
+        fonts,
+        watermark,
+        music,
+        intro,
+        outro,
+        chrome
       });
+      downloadBlob(blob, `proyecto-video-ia${PROJECT_FILE_EXTENSION}`);
+      setStatusTone("success");
+      setStatusMessage("Proyecto guardado.");
+    } catch (error) {
+      console.error("Error al guardar el proyecto", error);
+      setStatusTone("error");
+      setStatusMessage("No se pudo guardar el proyecto.");
+    }
+  };
 
-      recorder.start(500);
-      setStatusMessage("Renderizando video con IA...");
-
-      const startInstant = performance.now();
-      let animationFrame = 0;
-
-      const renderFrame = (timestamp: number) => {
-        const elapsed = (timestamp - startInstant) / 1000;
-        let accumulated = 0;
-        let currentMeta = metas[metas.length - 1];
-        let currentStart = totalTimelineDuration - currentMeta.duration;
-
-        for (const meta of metas) {
-          const metaStart = accumulated;
-          const metaEnd = accumulated + meta.duration;
-          if (elapsed >= metaStart && elapsed < metaEnd) {
-            currentMeta = meta;
-            currentStart = metaStart;
-            break;
-          }
-          accumulated += meta.duration;
-        }
+  const applyProject = (project: ProjectSnapshot) => {
+    const preset =
+      canvasPresets.find(({ label }) => label === project.canvasPreset.label) ??
+      canvasPresets.find(
+        ({ width, height }) =>
+          width === project.canvasPreset.width && height === project.canvasPreset.height
+      ) ??
+      project.canvasPreset;
+    replaceScenes(() => project.scenes);
+    setHistory(emptyHistory);
+    setSelectedSceneId(project.scenes[0]?.id ?? null);
+    setCanvasPreset(preset);
+    setFps(project.fps);
+    setExportFormat(project.exportFormat);
+    setFonts(project.fonts ?? []);
+    replaceSettings({
+      captionStyle: { ...defaultCaptionStyle, ...project.captionStyle },
+      watermark: project.watermark,
+      music: project.music,
+      intro: project.intro,
+      outro: project.outro,
+      chrome: { ...defaultOnScreenChrome, ...project.chrome }
+    });
+    setSelectedLayerId(null);
+  };
 
-        const sceneElapsed = Math.min(
-          currentMeta.duration,
-          Math.max(0, elapsed - currentStart)
-        );
-        drawSceneFrame(ctx, canvas, currentMeta, sceneElapsed, currentMeta.duration);
-
-        if (elapsed < totalTimelineDuration) {
-          animationFrame = requestAnimationFrame(renderFrame);
-        } else {
-          drawSceneFrame(
-            ctx,
-            canvas,
-            metas[metas.length - 1],
-            metas[metas.length - 1].duration,
-            metas[metas.length - 1].duration
-          );
-          recorder.stop();
-        }
-      };
+  const handleProjectFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      applyProject(await parseProjectFile(await file.arrayBuffer()));
+      setProjectId(createId());
+      setRestoreCandidate(null);
+      setStatusTone("success");
+      setStatusMessage(`Proyecto "${file.name}" abierto.`);
+    } catch (error) {
+      console.error("Error al abrir el proyecto", error);
+      setStatusTone("error");
+      setStatusMessage(
+        error instanceof ProjectFileError
+          ? error.message
+          : "No se pudo abrir el archivo de proyecto."
+      );
+    }
+  };
 
-      animationFrame = requestAnimationFrame(renderFrame);
-      const videoBlob = await recorderPromise;
-      cancelAnimationFrame(animationFrame);
-      const url = URL.createObjectURL(videoBlob);
-      if (generatedVideoUrl) {
-        URL.revokeObjectURL(generatedVideoUrl);
+  const openRecentProject = async (id: string) => {
+    if (isGenerating) return;
+    try {
+      const project = await loadProjectRecord(id);
+      if (!project) {
+        throw new Error("El proyecto autoguardado ya no existe.");
       }
-      setGeneratedVideoUrl(url);
+      applyProject(project);
+      setProjectId(id);
+      setRestoreCandidate(null);
       setStatusTone("success");
-      setStatusMessage("Video generado exitosamente.");
+      setStatusMessage("Sesión restaurada.");
     } catch (error) {
-      console.error("Error al generar el video", error);
+      console.error("Error al restaurar el proyecto", error);
       setStatusTone("error");
-      setStatusMessage("Hubo un problema al generar el video.");
-    } finally {
-      setIsGenerating(false);
+      setStatusMessage("No se pudo restaurar el proyecto autoguardado.");
     }
   };
 
-  const handleSceneImageChange = (sceneId: string, event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
+  const forgetRecentProject = async (id: string) => {
+    try {
+      await deleteProjectRecord(id);
+      setRecentProjects((prev) => prev.filter((summary) => summary.id !== id));
+      setRestoreCandidate((prev) => (prev?.id === id ? null : prev));
+    } catch (error) {
+      console.error("Error al eliminar el proyecto reciente", error);
+    }
+  };
+
+  const assignSceneMedia = (sceneId: string, file: File | undefined) => {
+    if (file && isVideoFile(file)) {
+      handleClipUpload(sceneId, file);
+    } else if (file?.type.startsWith("image/")) {
       handleImageUpload(sceneId, file);
     }
+  };
+
+  const handleSceneImageChange = (sceneId: string, event: ChangeEvent<HTMLInputElement>) => {
+    assignSceneMedia(sceneId, event.target.files?.[0]);
     event.target.value = "";
   };
 
+  const handleSceneMediaDrop = (sceneId: string, event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    assignSceneMedia(sceneId, event.dataTransfer.files[0]);
+  };
+
   const handleSceneAudioChange = (sceneId: string, event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -592,22 +2512,6 @@ export default function Page() {
     event.target.value = "";
   };
 
-  const timelineSegments = useMemo(() => {
-    const total = scenes.reduce((acc, scene) => {
-      const duration = Math.max(scene.duration, scene.audioDuration ?? 0, DURATION_MIN);
-      return acc + duration;
-    }, 0);
-    if (total === 0) return [];
-    return scenes.map((scene) => {
-      const duration = Math.max(scene.duration, scene.audioDuration ?? 0, DURATION_MIN);
-      return {
-        id: scene.id,
-        width: `${(duration / total) * 100}%`,
-        color: scene.accentColor
-      };
-    });
-  }, [scenes]);
-
   return (
     <main className={styles.page}>
       <header className={styles.header}>
@@ -623,9 +2527,50 @@ export default function Page() {
           <button className={styles.ctaPrimary} onClick={generateVideo} disabled={isGenerating}>
             {isGenerating ? "Generando video..." : "Generar video ahora"}
           </button>
+          <button className={styles.buttonGhost} onClick={saveProject}>
+            Guardar proyecto
+          </button>
+          <button
+            className={styles.buttonGhost}
+            onClick={() => projectInputRef.current?.click()}
+            disabled={isGenerating}
+          >
+            Abrir proyecto
+          </button>
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            hidden
+            onChange={handleProjectFileChange}
+          />
         </div>
       </header>
 
+      {restoreCandidate && restoreCandidate.id !== projectId && (
+        <div className={styles.restoreBanner}>
+          <span>
+            Encontramos una sesión anterior ({restoreCandidate.name},{" "}
+            {new Date(restoreCandidate.updatedAt).toLocaleString()}). ¿Quieres
+            restaurarla?
+          </span>
+          <div className={styles.inlineActions}>
+            <button
+              className={styles.buttonGhost}
+              onClick={() => openRecentProject(restoreCandidate.id)}
+            >
+              Restaurar sesión
+            </button>
+            <button
+              className={styles.buttonGhost}
+              onClick={() => setRestoreCandidate(null)}
+            >
+              Descartar
+            </button>
+          </div>
+        </div>
+      )}
+
       <section className={styles.studio}>
         <aside className={styles.panel}>
           <div className={styles.panelTitle}>Escenas</div>
@@ -637,18 +2582,48 @@ export default function Page() {
                   styles.sceneCard,
                   selectedSceneId === scene.id && styles.sceneCardActive
                 )}
-                onClick={() => setSelectedSceneId(scene.id)}
+                onClick={() => jumpToScene(scene.id)}
+                draggable
+                onDragStart={(event) => {
+                  draggedSceneRef.current = scene.id;
+                  event.dataTransfer.effectAllowed = "move";
+                }}
+                onDragOver={(event) => {
+                  if (draggedSceneRef.current) event.preventDefault();
+                }}
+                onDrop={(event) => {
+                  const draggedId = draggedSceneRef.current;
+                  draggedSceneRef.current = null;
+                  if (!draggedId) return;
+                  event.preventDefault();
+                  const movingDown =
+                    scenes.findIndex((item) => item.id === draggedId) < index;
+                  moveScene(
+                    draggedId,
+                    movingDown ? scenes[index + 1]?.id ?? null : scene.id
+                  );
+                }}
+                onDragEnd={() => {
+                  draggedSceneRef.current = null;
+                }}
               >
-                <div className={styles.sceneThumb}>
-                  {scene.imageDataUrl ? (
+                <div
+                  className={styles.sceneThumb}
+                  style={scene.titleCard ? { background: scene.accentColor } : undefined}
+                >
+                  {scene.titleCard ? (
+                    <>{scene.titleCard.title || "Tarjeta"}</>
+                  ) : scene.imageAssetId ? (
                     <NextImage
-                      src={scene.imageDataUrl}
+                      src={assetUrl(scene.imageAssetId) ?? ""}
                       alt={`Escena ${index + 1}`}
                       fill
                       unoptimized
                       sizes="72px"
                       style={{ objectFit: "cover" }}
                     />
+                  ) : scene.clip ? (
+                    <>Clip de<br />video</>
                   ) : (
                     <>Imagen<br />no asignada</>
                   )}
@@ -657,9 +2632,7 @@ export default function Page() {
                   <div className={styles.sceneTitle}>Escena {index + 1}</div>
                   <div className={styles.sceneCaption}>
                     {scene.audioDuration
-                      ? `Duración: ${formatSeconds(
-                          Math.max(scene.duration, scene.audioDuration)
-                        )}`
+                      ? `Duración: ${formatSeconds(sceneTimelineDuration(scene))}`
                       : `Duración: ${scene.duration.toFixed(1)}s`}
                   </div>
                   <div className={styles.sceneCaption}>
@@ -677,6 +2650,14 @@ export default function Page() {
             <button className={styles.buttonGhost} onClick={addScene}>
               Añadir escena
             </button>
+            <select value="" onChange={(event) => addTitleCard(event.target.value)}>
+              <option value="">Añadir tarjeta…</option>
+              {titleCardTemplates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.label}
+                </option>
+              ))}
+            </select>
             {selectedScene && (
               <button
                 className={styles.buttonGhost}
@@ -694,51 +2675,115 @@ export default function Page() {
               Eliminar escena seleccionada
             </button>
           )}
-          <div className={styles.timeline}>
-            <div className={styles.panelTitle}>Línea de tiempo</div>
-            <div className={styles.timelineBar}>
-              {timelineSegments.map((segment) => (
-                <span
-                  key={segment.id}
-                  className={styles.timelineSegment}
-                  style={{ width: segment.width, background: segment.color }}
-                />
+          <BulkImportPanel
+            report={importReport}
+            busy={isImporting}
+            onImport={importFiles}
+            onDismissReport={() => setImportReport(null)}
+          />
+          <HistoryPanel history={history} onTravel={travel} />
+          {recentProjects.length > 0 && (
+            <div className={styles.recentProjects}>
+              <div className={styles.panelTitle}>Proyectos recientes</div>
+              {recentProjects.map((summary) => (
+                <div
+                  key={summary.id}
+                  className={clsx(
+                    styles.sceneCard,
+                    summary.id === projectId && styles.sceneCardActive
+                  )}
+                >
+                  <button
+                    className={styles.sceneThumb}
+                    onClick={() => openRecentProject(summary.id)}
+                    disabled={summary.id === projectId}
+                  >
+                    {summary.thumbnail ? (
+                      <NextImage
+                        src={summary.thumbnail}
+                        alt={summary.name}
+                        fill
+                        unoptimized
+                        sizes="72px"
+                        style={{ objectFit: "cover" }}
+                      />
+                    ) : (
+                      <>Sin<br />imagen</>
+                    )}
+                  </button>
+                  <div className={styles.sceneMeta}>
+                    <div className={styles.sceneTitle}>{summary.name}</div>
+                    <div className={styles.sceneCaption}>
+                      {summary.sceneCount} escenas •{" "}
+                      {new Date(summary.updatedAt).toLocaleString()}
+                    </div>
+                    {summary.id !== projectId && (
+                      <button
+                        className={clsx(styles.buttonGhost, styles.danger)}
+                        onClick={() => forgetRecentProject(summary.id)}
+                      >
+                        Quitar
+                      </button>
+                    )}
+                  </div>
+                </div>
               ))}
             </div>
-            <div className={styles.timelineInfo}>
-              <span>{scenes.length} escenas</span>
-              <span>Total: {formatSeconds(totalDuration)}</span>
-            </div>
-          </div>
+          )}
         </aside>
 
         <section className={clsx(styles.panel, styles.panelDense)}>
           {selectedScene ? (
             <div className={styles.editor}>
               <div className={styles.editorStack}>
-                <div className={styles.field}>
-                  <label>Imagen base</label>
-                  <input
-                    type="file"
-                    accept="image/*"
-                    className={styles.input}
-                    onChange={(event) =>
-                      handleSceneImageChange(selectedScene.id, event)
-                    }
-                  />
-                  {selectedScene.imageName ? (
-                    <span className={styles.status}>
-                      Imagen: {selectedScene.imageName}
-                    </span>
-                  ) : (
-                    <div className={styles.emptyState}>
-                      <span>Arrastra o seleccione una imagen para esta escena.</span>
-                      <span>
-                        Admite renders, fotografías, ilustraciones y cualquier formato popular.
+                {selectedScene.titleCard ? (
+                  <div className={styles.field}>
+                    <label>Tarjeta de título</label>
+                    <TitleCardSettings
+                      scene={{ ...selectedScene, titleCard: selectedScene.titleCard }}
+                      onChange={(changes) => updateTitleCardScene(selectedScene.id, changes)}
+                      onLogoUpload={(file) => handleImageUpload(selectedScene.id, file)}
+                    />
+                  </div>
+                ) : (
+                  <div
+                    className={styles.field}
+                    onDragOver={(event) => event.preventDefault()}
+                    onDrop={(event) => handleSceneMediaDrop(selectedScene.id, event)}
+                  >
+                    <label>Imagen o clip base</label>
+                    <input
+                      type="file"
+                      accept="image/*,video/*"
+                      className={styles.input}
+                      onChange={(event) =>
+                        handleSceneImageChange(selectedScene.id, event)
+                      }
+                    />
+                    {selectedScene.clip ? (
+                      <>
+                        <span className={styles.status}>
+                          Clip: {selectedScene.clip.name}
+                        </span>
+                        <ClipSettings
+                          clip={selectedScene.clip}
+                          onChange={(changes) => updateSceneClip(selectedScene.id, changes)}
+                        />
+                      </>
+                    ) : selectedScene.imageName ? (
+                      <span className={styles.status}>
+                        Imagen: {selectedScene.imageName}
                       </span>
-                    </div>
-                  )}
-                </div>
+                    ) : (
+                      <div className={styles.emptyState}>
+                        <span>Arrastra o seleccione una imagen o un clip para esta escena.</span>
+                        <span>
+                          Admite renders, fotografías, ilustraciones y clips de video cortos.
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                )}
 
                 <div className={styles.field}>
                   <label>Diálogo / Subtítulo</label>
@@ -750,6 +2795,163 @@ export default function Page() {
                       handleDialogueChange(selectedScene.id, event.target.value)
                     }
                   />
+                  <div className={styles.inlineActions}>
+                    <button
+                      className={styles.buttonGhost}
+                      onClick={() => distributeCues(selectedScene)}
+                      disabled={!selectedScene.dialogue.trim()}
+                    >
+                      {selectedScene.audioDuration
+                        ? "Repartir en el audio"
+                        : "Repartir en la escena"}
+                    </button>
+                    {selectedScene.cues && (
+                      <button
+                        className={styles.buttonGhost}
+                        onClick={() => updateSceneCues(selectedScene.id, undefined)}
+                      >
+                        Usar bloque único
+                      </button>
+                    )}
+                    <label className={styles.status}>
+                      <input
+                        type="checkbox"
+                        checked={Boolean(selectedScene.karaoke)}
+                        onChange={(event) =>
+                          handleKaraokeChange(selectedScene.id, event.target.checked)
+                        }
+                      />{" "}
+                      Resaltar palabra por palabra
+                    </label>
+                  </div>
+                  {selectedScene.cues && (
+                    <div className={styles.cueList}>
+                      {selectedScene.cues.map((cue) => (
+                        <div key={cue.id} className={styles.cueRow}>
+                          <input
+                            type="number"
+                            className={styles.input}
+                            min={0}
+                            step={0.1}
+                            value={Number(cue.start.toFixed(2))}
+                            onChange={(event) =>
+                              handleCueChange(selectedScene, cue.id, {
+                                start: Number(event.target.value)
+                              })
+                            }
+                            aria-label="Inicio (s)"
+                          />
+                          <input
+                            type="number"
+                            className={styles.input}
+                            min={0}
+                            step={0.1}
+                            value={Number(cue.end.toFixed(2))}
+                            onChange={(event) =>
+                              handleCueChange(selectedScene, cue.id, {
+                                end: Number(event.target.value)
+                              })
+                            }
+                            aria-label="Fin (s)"
+                          />
+                          <input
+                            className={styles.input}
+                            value={cue.text}
+                            onChange={(event) =>
+                              handleCueChange(selectedScene, cue.id, {
+                                text: event.target.value
+                              })
+                            }
+                            aria-label="Texto del subtítulo"
+                          />
+                          <button
+                            className={clsx(styles.buttonGhost, styles.danger)}
+                            onClick={() => removeCue(selectedScene, cue.id)}
+                          >
+                            Quitar
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        className={styles.buttonGhost}
+                        onClick={() => addCue(selectedScene)}
+                      >
+                        Añadir subtítulo
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className={styles.field}>
+                  <label>Estilo de subtítulos</label>
+                  <div className={styles.inlineActions}>
+                    <select
+                      value={captionScope}
+                      onChange={(event) =>
+                        setCaptionScope(event.target.value as "project" | "scene")
+                      }
+                    >
+                      <option value="project">Todo el proyecto</option>
+                      <option value="scene">Solo esta escena</option>
+                    </select>
+                    <select
+                      value=""
+                      onChange={(event) => applyCaptionTemplate(event.target.value)}
+                    >
+                      <option value="">Aplicar plantilla…</option>
+                      {[...builtInCaptionTemplates, ...captionTemplates].map((template) => (
+                        <option key={template.id} value={template.id}>
+                          {template.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      className={styles.buttonGhost}
+                      onClick={() =>
+                        saveCurrentCaptionTemplate(
+                          captionScope === "scene"
+                            ? resolveCaptionStyle(captionStyle, selectedScene)
+                            : captionStyle
+                        )
+                      }
+                    >
+                      Guardar como plantilla
+                    </button>
+                    {captionScope === "scene" && selectedScene.captionStyle && (
+                      <button
+                        className={styles.buttonGhost}
+                        onClick={() => resetSceneCaptionStyle(selectedScene.id)}
+                      >
+                        Volver al estilo del proyecto
+                      </button>
+                    )}
+                  </div>
+                  {captionTemplates.length > 0 && (
+                    <div className={styles.badgeGroup}>
+                      {captionTemplates.map((template) => (
+                        <span key={template.id} className={styles.audioBadge}>
+                          {template.name}{" "}
+                          <button
+                            className={clsx(styles.buttonGhost, styles.danger)}
+                            onClick={() => removeCaptionTemplate(template.id)}
+                            aria-label={`Eliminar plantilla ${template.name}`}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <CaptionStyleEditor
+                    style={
+                      captionScope === "scene"
+                        ? resolveCaptionStyle(captionStyle, selectedScene)
+                        : captionStyle
+                    }
+                    fonts={fonts}
+                    onChange={updateCaptionStyle}
+                    onFontUpload={handleFontUpload}
+                  />
                 </div>
 
                 <div className={styles.field}>
@@ -771,13 +2973,218 @@ export default function Page() {
                       style={{ flex: 1 }}
                     />
                   </div>
-                  {selectedScene.audioDuration &&
-                    selectedScene.audioDuration > selectedScene.duration && (
-                      <div className={styles.status}>
-                        El audio dura más que la escena. Se extenderá a{" "}
-                        {selectedScene.audioDuration.toFixed(1)}s
+                  {sceneAudioLength(selectedScene) > selectedScene.duration && (
+                    <div className={styles.status}>
+                      El audio dura más que la escena. Se extenderá a{" "}
+                      {sceneAudioLength(selectedScene).toFixed(1)}s
+                    </div>
+                  )}
+                </div>
+
+                {!selectedScene.titleCard && (
+                  <>
+                    <div className={styles.field}>
+                      <label>Encuadre</label>
+                      <select
+                        className={styles.input}
+                        value={selectedScene.fit ?? "contain"}
+                        onChange={(event) =>
+                          handleSceneFitChange(selectedScene.id, event.target.value as SceneFit)
+                        }
+                      >
+                        {sceneFitOptions.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <div className={styles.inlineActions}>
+                        <button
+                          className={styles.buttonGhost}
+                          onClick={() => {
+                            setMotionEditing(false);
+                            setFocusEditing((prev) => !prev);
+                          }}
+                          disabled={!previewVisual}
+                        >
+                          {focusEditing ? "Terminar punto focal" : "Elegir punto focal"}
+                        </button>
+                        {selectedScene.focalPoint && (
+                          <button
+                            className={styles.buttonGhost}
+                            onClick={() => updateSceneFocalPoint(selectedScene.id, undefined)}
+                          >
+                            Centrar
+                          </button>
+                        )}
                       </div>
-                    )}
+                      {focusEditing && (
+                        <span className={styles.status}>
+                          Haz clic sobre el sujeto. Los recuadros muestran lo que queda a la vista
+                          en cada formato al cubrir el cuadro; la cola de exportación lo cubre en
+                          los formatos de otra proporción aunque la escena use barras.
+                        </span>
+                      )}
+                    </div>
+
+                    <div className={styles.field}>
+                      <label>Movimiento de cámara</label>
+                      {selectedScene.motion ? (
+                        <>
+                          <div className={styles.rangeRow}>
+                            <span>Curva</span>
+                            <select
+                              value={selectedScene.motion.easing}
+                              onChange={(event) =>
+                                handleMotionEasingChange(
+                                  selectedScene,
+                                  event.target.value as MotionEasing
+                                )
+                              }
+                            >
+                              {motionEasingOptions.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className={styles.inlineActions}>
+                            <button
+                              className={styles.buttonGhost}
+                              onClick={() => {
+                                setFocusEditing(false);
+                                setMotionEditing((prev) => !prev);
+                              }}
+                            >
+                              {motionEditing ? "Terminar edición" : "Editar en la vista previa"}
+                            </button>
+                            <button
+                              className={styles.buttonGhost}
+                              onClick={() => playScene(selectedScene.id)}
+                              disabled={!previewMetas}
+                            >
+                              Previsualizar
+                            </button>
+                            <button
+                              className={styles.buttonGhost}
+                              onClick={() => applyRandomMotion(selectedScene.id)}
+                            >
+                              Movimiento suave aleatorio
+                            </button>
+                            <button
+                              className={clsx(styles.buttonGhost, styles.danger)}
+                              onClick={() => {
+                                setMotionEditing(false);
+                                updateSceneMotion(selectedScene.id, undefined);
+                              }}
+                            >
+                              Quitar movimiento
+                            </button>
+                          </div>
+                          {motionEditing && (
+                            <span className={styles.status}>
+                              Arrastra los recuadros de inicio y fin para encuadrar; usa las
+                              esquinas para acercar o alejar.
+                            </span>
+                          )}
+                        </>
+                      ) : (
+                        <div className={styles.inlineActions}>
+                          <button
+                            className={styles.buttonGhost}
+                            onClick={() => applyRandomMotion(selectedScene.id)}
+                            disabled={!previewVisual}
+                          >
+                            Movimiento suave aleatorio
+                          </button>
+                          {!hasSceneVisual(selectedScene) && (
+                            <span className={styles.status}>
+                              Asigna una imagen o un clip para animar la cámara.
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </>
+                )}
+
+                <div className={styles.field}>
+                  <label>Capas</label>
+                  <LayerPanel
+                    layers={selectedScene.layers ?? []}
+                    selectedLayerId={selectedLayerId}
+                    fontFamilies={[
+                      ...fonts.map((font) => font.family),
+                      ...fontFamilyOptions
+                    ]}
+                    onSelect={selectLayer}
+                    onChange={changeLayer}
+                    onRemove={(layerId) => removeLayer(selectedScene.id, layerId)}
+                    onReorder={(layerId, direction) =>
+                      reorderLayer(selectedScene.id, layerId, direction)
+                    }
+                    onAddImage={(file) => addImageLayer(selectedScene.id, file)}
+                    onAddText={() => addGeneratedLayer(selectedScene.id, "text")}
+                    onAddShape={() => addGeneratedLayer(selectedScene.id, "shape")}
+                  />
+                </div>
+
+                <div className={styles.field}>
+                  <label>Transición de entrada</label>
+                  {scenes[0]?.id === selectedScene.id ? (
+                    <span className={styles.status}>
+                      La primera escena empieza sin transición.
+                    </span>
+                  ) : (
+                    <>
+                      <select
+                        className={styles.input}
+                        value={selectedScene.transition?.type ?? "none"}
+                        onChange={(event) =>
+                          handleTransitionTypeChange(
+                            selectedScene,
+                            event.target.value as TransitionType
+                          )
+                        }
+                      >
+                        {transitionOptions.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      {selectedScene.transition && (
+                        <div className={styles.rangeRow}>
+                          <span>{selectedScene.transition.duration.toFixed(1)}s</span>
+                          <input
+                            type="range"
+                            min={TRANSITION_DURATION_MIN}
+                            max={TRANSITION_DURATION_MAX}
+                            step={0.1}
+                            value={selectedScene.transition.duration}
+                            onChange={(event) =>
+                              handleTransitionChange(selectedScene.id, {
+                                duration: Number(event.target.value)
+                              })
+                            }
+                            style={{ flex: 1 }}
+                          />
+                          {selectedScene.transition.type === "dipToColor" && (
+                            <input
+                              type="color"
+                              value={selectedScene.transition.color}
+                              onChange={(event) =>
+                                handleTransitionChange(selectedScene.id, {
+                                  color: event.target.value
+                                })
+                              }
+                            />
+                          )}
+                        </div>
+                      )}
+                    </>
+                  )}
                 </div>
 
                 <div className={styles.field}>
@@ -803,7 +3210,7 @@ export default function Page() {
                         Detener grabación
                       </button>
                     )}
-                    {selectedScene.audioArrayBuffer && (
+                    {selectedScene.audioAssetId && (
                       <button
                         className={clsx(styles.buttonGhost, styles.danger)}
                         onClick={() => clearAudio(selectedScene.id)}
@@ -815,14 +3222,107 @@ export default function Page() {
                   {isRecording && recordingSceneId === selectedScene.id && (
                     <span className={styles.status}>Grabando… habla cuando quieras.</span>
                   )}
+                  <NarrationSettings
+                    narration={selectedScene.narration ?? createNarration()}
+                    busy={narratingSceneIds.includes(selectedScene.id)}
+                    canGenerate={Boolean(selectedScene.dialogue.trim())}
+                    onChange={(changes) => handleNarrationChange(selectedScene, changes)}
+                    onGenerate={() => generateNarration(selectedScene)}
+                  />
                   {selectedScene.audioName && (
                     <div className={styles.badgeGroup}>
                       <span className={styles.audioBadge}>
                         Audio asignado • {selectedScene.audioName} •{" "}
-                        {formatSeconds(selectedScene.audioDuration ?? 0)}
+                        {formatSeconds(sceneAudioLength(selectedScene))}
                       </span>
                     </div>
                   )}
+                  {selectedAudioEdit &&
+                    selectedAudioPeaks &&
+                    selectedScene.audioDuration !== undefined && (
+                      <>
+                        <Waveform
+                          peaks={selectedAudioPeaks}
+                          duration={selectedScene.audioDuration}
+                          edit={selectedAudioEdit}
+                          color={selectedScene.accentColor}
+                          onTrimChange={(changes) => updateAudioEdit(selectedScene, changes)}
+                        />
+                        <div className={styles.optionsGrid}>
+                          <div className={styles.optionBox}>
+                            <label>Fundido entrada / salida (s)</label>
+                            <div className={styles.rangeRow}>
+                              <input
+                                type="number"
+                                className={styles.input}
+                                min={0}
+                                step={0.1}
+                                value={selectedAudioEdit.fadeIn}
+                                onChange={(event) =>
+                                  updateAudioEdit(selectedScene, {
+                                    fadeIn: Number(event.target.value)
+                                  })
+                                }
+                              />
+                              <input
+                                type="number"
+                                className={styles.input}
+                                min={0}
+                                step={0.1}
+                                value={selectedAudioEdit.fadeOut}
+                                onChange={(event) =>
+                                  updateAudioEdit(selectedScene, {
+                                    fadeOut: Number(event.target.value)
+                                  })
+                                }
+                              />
+                            </div>
+                          </div>
+                          <div className={styles.optionBox}>
+                            <label>
+                              Ganancia ({selectedAudioEdit.gainDb > 0 ? "+" : ""}
+                              {selectedAudioEdit.gainDb.toFixed(1)} dB)
+                            </label>
+                            <input
+                              type="range"
+                              min={AUDIO_GAIN_MIN_DB}
+                              max={AUDIO_GAIN_MAX_DB}
+                              step={0.5}
+                              value={selectedAudioEdit.gainDb}
+                              onChange={(event) =>
+                                updateAudioEdit(selectedScene, {
+                                  gainDb: Number(event.target.value)
+                                })
+                              }
+                            />
+                          </div>
+                        </div>
+                        <div className={styles.inlineActions}>
+                          <button
+                            className={styles.buttonGhost}
+                            onClick={() => trimSilence(selectedScene)}
+                          >
+                            Recortar silencios
+                          </button>
+                          {selectedScene.audioEdit && (
+                            <button
+                              className={styles.buttonGhost}
+                              onClick={() =>
+                                commitScenes({ label: "Restablecer audio" }, (prev) =>
+                                  prev.map((scene) =>
+                                    scene.id === selectedScene.id
+                                      ? { ...scene, audioEdit: undefined }
+                                      : scene
+                                  )
+                                )
+                              }
+                            >
+                              Restablecer audio
+                            </button>
+                          )}
+                        </div>
+                      </>
+                    )}
                 </div>
               </div>
 
@@ -835,30 +3335,62 @@ export default function Page() {
                       className={styles.canvas}
                       width={canvasPreset.width}
                       height={canvasPreset.height}
+                      onPointerDown={handleCanvasPointerDown}
+                      onPointerMove={handleCanvasPointerMove}
+                      onPointerUp={handleCanvasPointerUp}
+                      style={{
+                        cursor: motionEditing ? "move" : focusEditing ? "crosshair" : undefined,
+                        touchAction: "none"
+                      }}
                     />
                   </div>
+                  <PreviewTransport
+                    time={previewTime}
+                    total={timeline.total}
+                    fps={fps}
+                    isPlaying={isPlaying}
+                    disabled={!previewMetas || timeline.total <= 0}
+                    onTogglePlay={togglePlayback}
+                    onSeek={seekPreview}
+                    onStepScene={stepScene}
+                  />
+                  <div className={styles.inlineActions}>
+                    <label className={styles.status}>
+                      <input
+                        type="checkbox"
+                        checked={safeAreaGuides.safe}
+                        onChange={(event) =>
+                          setSafeAreaGuides((prev) => ({ ...prev, safe: event.target.checked }))
+                        }
+                      />{" "}
+                      Zona segura
+                    </label>
+                    <label className={styles.status}>
+                      <input
+                        type="checkbox"
+                        checked={safeAreaGuides.title}
+                        onChange={(event) =>
+                          setSafeAreaGuides((prev) => ({ ...prev, title: event.target.checked }))
+                        }
+                      />{" "}
+                      Zona de títulos
+                    </label>
+                    {canvasPreset.height > canvasPreset.width && (
+                      <span className={styles.status}>
+                        Márgenes de Shorts, Reels y TikTok.
+                      </span>
+                    )}
+                  </div>
                 </div>
 
                 <div className={styles.optionsGrid}>
                   <div className={styles.optionBox}>
                     <label>Resolución</label>
-                    <select
-                      value={canvasPreset.label}
-                      onChange={(event) => {
-                        const preset = canvasPresets.find(
-                          ({ label }) => label === event.target.value
-                        );
-                        if (preset) {
-                          setCanvasPreset(preset);
-                        }
-                      }}
-                    >
-                      {canvasPresets.map((preset) => (
-                        <option key={preset.label} value={preset.label}>
-                          {preset.label}
-                        </option>
-                      ))}
-                    </select>
+                    <ResolutionSettings
+                      preset={canvasPreset}
+                      presets={canvasPresets}
+                      onChange={setCanvasPreset}
+                    />
                   </div>
                   <div className={styles.optionBox}>
                     <label>FPS</label>
@@ -873,8 +3405,174 @@ export default function Page() {
                       ))}
                     </select>
                   </div>
+                  <div className={styles.optionBox}>
+                    <label>Formato</label>
+                    <select
+                      value={exportFormat}
+                      onChange={(event) =>
+                        setExportFormat(event.target.value as ExportFormat)
+                      }
+                    >
+                      {exportFormats.map((format) => (
+                        <option key={format.value} value={format.value}>
+                          {format.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className={styles.field}>
+                  <label>Marca de agua del proyecto</label>
+                  <div className={styles.inlineActions}>
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className={styles.input}
+                      onChange={handleWatermarkUpload}
+                    />
+                    {watermark && (
+                      <>
+                        <button
+                          className={styles.buttonGhost}
+                          onClick={() =>
+                            setSelectedLayerId((prev) =>
+                              prev === watermark.id ? null : watermark.id
+                            )
+                          }
+                        >
+                          {selectedLayerId === watermark.id ? "Listo" : "Editar marca de agua"}
+                        </button>
+                        <button
+                          className={clsx(styles.buttonGhost, styles.danger)}
+                          onClick={() => {
+                            commitSettings({ label: "Quitar marca de agua" }, (prev) => ({
+                              ...prev,
+                              watermark: undefined
+                            }));
+                            setSelectedLayerId(null);
+                          }}
+                        >
+                          Quitar
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  {watermark && selectedLayerId === watermark.id && (
+                    <LayerProperties
+                      layer={watermark}
+                      fontFamilies={fontFamilyOptions}
+                      showTiming={false}
+                      onChange={(changes) => changeLayer(watermark.id, changes)}
+                    />
+                  )}
+                </div>
+
+                <div className={styles.field}>
+                  <label>Progreso e indicadores en pantalla</label>
+                  <OnScreenChromeSettings
+                    chrome={chrome}
+                    onChange={updateChrome}
+                  />
+                </div>
+
+                <div className={styles.field}>
+                  <label>Intro y cierre del proyecto</label>
+                  {(
+                    [
+                      ["intro", "Intro", intro],
+                      ["outro", "Cierre", outro]
+                    ] as const
+                  ).map(([which, label, bookend]) => (
+                    <div key={which} className={styles.optionBox}>
+                      <div className={styles.rangeRow}>
+                        <span>{label}</span>
+                        {bookend ? (
+                          <button
+                            className={clsx(styles.buttonGhost, styles.danger)}
+                            onClick={() => setBookend(which, undefined)}
+                          >
+                            Quitar
+                          </button>
+                        ) : (
+                          <button
+                            className={styles.buttonGhost}
+                            onClick={() => {
+                              const template = findTitleCardTemplate(which);
+                              if (template) setBookend(which, createTitleCardScene(template));
+                            }}
+                          >
+                            Añadir {label.toLowerCase()}
+                          </button>
+                        )}
+                      </div>
+                      {bookend?.titleCard && (
+                        <TitleCardSettings
+                          scene={{ ...bookend, titleCard: bookend.titleCard }}
+                          showDuration
+                          onChange={(changes) => updateBookend(which, changes)}
+                          onLogoUpload={(file) => handleBookendLogo(which, file)}
+                        />
+                      )}
+                    </div>
+                  ))}
+                  <span className={styles.status}>
+                    Se añaden al principio y al final de cada exportación.
+                  </span>
+                </div>
+
+                <div className={styles.field}>
+                  <label>Música de fondo</label>
+                  <MusicBedSettings
+                    music={music}
+                    onUpload={handleMusicUpload}
+                    onChange={(changes) =>
+                      commitSettings({ label: "Ajustar música", coalesceKey: "music" }, (prev) =>
+                        prev.music ? { ...prev, music: { ...prev.music, ...changes } } : prev
+                      )
+                    }
+                    onRemove={() =>
+                      commitSettings({ label: "Quitar música" }, (prev) => ({
+                        ...prev,
+                        music: undefined
+                      }))
+                    }
+                  />
                 </div>
 
+                <div className={styles.inlineActions}>
+                  <label className={styles.status}>
+                    <input
+                      type="checkbox"
+                      checked={embedSubtitles && formatSupportsSubtitles}
+                      disabled={!formatSupportsSubtitles}
+                      onChange={(event) => setEmbedSubtitles(event.target.checked)}
+                    />{" "}
+                    Incrustar subtítulos en el video (solo WebM)
+                  </label>
+                  <button
+                    className={styles.buttonGhost}
+                    onClick={() => exportSubtitles("srt")}
+                  >
+                    Descargar .srt
+                  </button>
+                  <button
+                    className={styles.buttonGhost}
+                    onClick={() => exportSubtitles("vtt")}
+                  >
+                    Descargar .vtt
+                  </button>
+                </div>
+
+                <ExportQueuePanel
+                  presets={exportPresetOptions}
+                  queued={queuePresetLabels}
+                  jobs={exportJobs}
+                  disabled={isGenerating}
+                  onToggle={toggleQueuePreset}
+                  onStart={exportQueue}
+                />
+
                 <div className={styles.generatorActions}>
                   <button
                     className={styles.primary}
@@ -894,6 +3592,12 @@ export default function Page() {
                   </div>
                 </div>
 
+                <RenderProgressPanel
+                  progress={renderProgress}
+                  timings={renderTimings}
+                  onCancel={cancelExport}
+                />
+
                 {generatedVideoUrl && (
                   <div className={styles.videoPreview}>
                     <div className={styles.panelTitle}>Video listo</div>
@@ -905,9 +3609,9 @@ export default function Page() {
                       <a
                         className={styles.buttonGhost}
                         href={generatedVideoUrl}
-                        download="video-ia.webm"
+                        download={`video-ia.${generatedVideoFormat}`}
                       >
-                        Descargar .webm
+                        Descargar .{generatedVideoFormat}
                       </a>
                     </div>
                   </div>
@@ -921,6 +3625,28 @@ export default function Page() {
           )}
         </section>
       </section>
+
+      <section className={clsx(styles.panel, styles.timeline)}>
+        <TimelineEditor
+          scenes={scenes}
+          entries={timeline.entries}
+          total={timeline.total}
+          time={previewTime}
+          selectedSceneId={selectedSceneId}
+          onSelect={jumpToScene}
+          onSeek={seekPreview}
+          onReorder={moveScene}
+          onDurationChange={handleDurationChange}
+          onDropFiles={addMediaScenes}
+        />
+        <div className={styles.timelineInfo}>
+          <span>
+            {scenes.length} escenas
+            {skippedSceneCount > 0 && ` (${skippedSceneCount} sin imagen)`}
+          </span>
+          <span>Total: {formatSeconds(totalDuration)}</span>
+        </div>
+      </section>
     </main>
   );
 }
@@ -0,0 +1,301 @@
+import { ChildProcessWithoutNullStreams, spawn } from "node:child_process";
+import { once } from "node:events";
+import type { Readable } from "node:stream";
+import {
+  DEFAULT_AUDIO_BITRATE,
+  DEFAULT_VIDEO_BITRATE,
+  ExportFormat,
+  KEY_FRAME_SECONDS
+} from "../utils/encoder";
+
+const FFMPEG = process.env.FFMPEG_PATH ?? "ffmpeg";
+const FFPROBE = process.env.FFPROBE_PATH ?? "ffprobe";
+
+/** Clip requests further ahead than this restart the decoder instead of reading through. */
+const CLIP_RESTART_GAP = 1;
+
+export class RenderCliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RenderCliError";
+  }
+}
+
+const spawnTool = (command: string, args: string[]) => {
+  const child = spawn(command, ["-hide_banner", "-loglevel", "error", ...args]);
+  let stderr = "";
+  child.stderr.on("data", (chunk: Buffer) => {
+    stderr = (stderr + chunk.toString()).slice(-2000);
+  });
+  const exited = new Promise<void>((resolve, reject) => {
+    child.on("error", (error: NodeJS.ErrnoException) =>
+      reject(
+        new RenderCliError(
+          error.code === "ENOENT"
+            ? `No se encontró "${command}". Instala ffmpeg o define FFMPEG_PATH/FFPROBE_PATH.`
+            : error.message
+        )
+      )
+    );
+    child.on("close", (code, signal) => {
+      if (code === 0 || signal) {
+        resolve();
+      } else {
+        reject(new RenderCliError(`${command} terminó con código ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+  return { child, exited };
+};
+
+const collect = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+const runTool = async (command: string, args: string[]) => {
+  const { child, exited } = spawnTool(command, args);
+  const [output] = await Promise.all([collect(child.stdout), exited]);
+  return output;
+};
+
+type ClipDecoder = {
+  child: ChildProcessWithoutNullStreams;
+  read: (size: number) => Promise<Buffer | null>;
+};
+
+type ClipFrame = { time: number; data: Buffer };
+
+/** Reads fixed-size records (raw video frames) from a stream. */
+const createRecordReader = (stream: Readable) => {
+  const iterator = stream[Symbol.asyncIterator]() as AsyncIterator<Buffer>;
+  let chunks: Buffer[] = [];
+  let buffered = 0;
+  return async (size: number) => {
+    while (buffered < size) {
+      const { value, done } = await iterator.next();
+      if (done) return null;
+      chunks.push(value);
+      buffered += value.length;
+    }
+    const joined = Buffer.concat(chunks);
+    chunks = [joined.subarray(size)];
+    buffered -= size;
+    return joined.subarray(0, size);
+  };
+};
+
+/**
+ * Decodes any audio file ffmpeg understands to planar float samples, resampled
+ * like `decodeAudioData` does in the browser. Resolves null when the file has
+ * no audio track.
+ */
+export const decodeAudioFile = async (path: string, sampleRate: number) => {
+  const channels = 2;
+  let output: Buffer;
+  try {
+    const resample = ["-ac", String(channels), "-ar", String(sampleRate)];
+    output = await runTool(FFMPEG, ["-i", path, "-vn", ...resample, "-f", "f32le", "pipe:1"]);
+  } catch (error) {
+    if (error instanceof RenderCliError) return null;
+    throw error;
+  }
+  const samples = new Float32Array(
+    output.buffer,
+    output.byteOffset,
+    Math.floor(output.byteLength / 4)
+  );
+  const length = Math.floor(samples.length / channels);
+  if (length === 0) return null;
+  const planar = Array.from({ length: channels }, () => new Float32Array(length));
+  for (let frame = 0; frame < length; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      planar[channel][frame] = samples[frame * channels + channel];
+    }
+  }
+  return planar;
+};
+
+export const probeVideoSize = async (path: string) => {
+  const query = ["-select_streams", "v:0", "-show_entries", "stream=width,height"];
+  const output = await runTool(FFPROBE, [...query, "-of", "csv=p=0:s=x", path]);
+  const [width, height] = output.toString().trim().split("x").map(Number);
+  if (!width || !height) {
+    throw new RenderCliError(`No se pudo leer el tamaño del clip "${path}".`);
+  }
+  return { width, height };
+};
+
+/**
+ * Serves RGBA frames of a clip by clip time. Requests that move forward are
+ * read from one running decoder; jumping back (loops) or far ahead restarts it,
+ * like seeking the <video> element does in the browser.
+ */
+export const openClipFrames = async (path: string, fps: number) => {
+  const { width, height } = await probeVideoSize(path);
+  const frameBytes = width * height * 4;
+  const tolerance = 0.5 / fps;
+  let decoder: ClipDecoder | null = null;
+  let last: ClipFrame | null = null;
+  let nextTime = 0;
+  let ended = false;
+
+  const close = () => {
+    decoder?.child.kill();
+    decoder = null;
+  };
+
+  const restart = (time: number): ClipDecoder => {
+    close();
+    const input = ["-ss", time.toFixed(6), "-i", path, "-an", "-sn", "-vf", `fps=${fps}`];
+    const output = ["-f", "rawvideo", "-pix_fmt", "rgba", "pipe:1"];
+    const { child, exited } = spawnTool(FFMPEG, [...input, ...output]);
+    // Killed decoders reject too; real failures show up as a clip with no frames.
+    exited.catch(() => undefined);
+    decoder = { child, read: createRecordReader(child.stdout) };
+    nextTime = time;
+    ended = false;
+    return decoder;
+  };
+
+  const frameAt = async (time: number) => {
+    let active = decoder;
+    let current = last;
+    if (
+      !active ||
+      !current ||
+      time < current.time - tolerance ||
+      time > current.time + CLIP_RESTART_GAP
+    ) {
+      active = restart(time);
+      current = null;
+    }
+    while (!ended && (!current || nextTime <= time + tolerance)) {
+      const data = await active.read(frameBytes);
+      if (!data) {
+        ended = true;
+        break;
+      }
+      current = { time: nextTime, data: Buffer.from(data) };
+      nextTime += 1 / fps;
+    }
+    last = current;
+    if (!current) {
+      throw new RenderCliError(
+        `No se pudo decodificar el clip "${path}" en ${time.toFixed(2)}s.`
+      );
+    }
+    return current.data;
+  };
+
+  return { width, height, frameAt, close };
+};
+
+export type ClipFrames = Awaited<ReturnType<typeof openClipFrames>>;
+
+type FormatArgs = {
+  video: string[];
+  audio: string[];
+  subtitles: string;
+};
+
+const formatArgs: Record<ExportFormat, FormatArgs> = {
+  webm: {
+    video: ["-c:v", "libvpx-vp9", "-pix_fmt", "yuv420p"],
+    audio: ["-c:a", "libopus"],
+    subtitles: "webvtt"
+  },
+  mp4: {
+    video: ["-c:v", "libx264", "-pix_fmt", "yuv420p", "-movflags", "+faststart"],
+    audio: ["-c:a", "aac"],
+    subtitles: "mov_text"
+  }
+};
+
+type VideoOutput = {
+  out: string;
+  format: ExportFormat;
+  width: number;
+  height: number;
+  fps: number;
+  audioPath?: string;
+  subtitlesPath?: string;
+};
+
+/** Starts ffmpeg on raw RGBA frames from stdin, at the browser export's bitrates. */
+export const startVideoEncoder = ({
+  out,
+  format,
+  width,
+  height,
+  fps,
+  audioPath,
+  subtitlesPath
+}: VideoOutput) => {
+  const codecs = formatArgs[format];
+  const frames = ["-f", "rawvideo", "-pix_fmt", "rgba", "-s", `${width}x${height}`];
+  const inputs = [...frames, "-r", String(fps), "-i", "pipe:0"];
+  const maps = ["-map", "0:v"];
+  const encoding = [...codecs.video, "-b:v", String(DEFAULT_VIDEO_BITRATE)];
+  encoding.push("-g", String(fps * KEY_FRAME_SECONDS));
+  let nextInput = 1;
+  if (audioPath) {
+    inputs.push("-i", audioPath);
+    maps.push("-map", `${nextInput++}:a`);
+    encoding.push(...codecs.audio, "-b:a", String(DEFAULT_AUDIO_BITRATE));
+  }
+  if (subtitlesPath) {
+    inputs.push("-i", subtitlesPath);
+    maps.push("-map", `${nextInput++}:s`);
+    encoding.push("-c:s", codecs.subtitles);
+  }
+  const { child, exited } = spawnTool(FFMPEG, ["-y", ...inputs, ...maps, ...encoding, out]);
+  // Surfaces through `exited`; without a listener a dead ffmpeg crashes the process on write.
+  child.stdin.on("error", () => undefined);
+
+  const writeFrame = async (rgba: Uint8ClampedArray) => {
+    if (!child.stdin.write(Buffer.from(rgba.buffer, rgba.byteOffset, rgba.byteLength))) {
+      await Promise.race([once(child.stdin, "drain"), exited]);
+    }
+  };
+
+  const finish = async () => {
+    child.stdin.end();
+    await exited;
+  };
+
+  const abort = () => {
+    child.kill();
+  };
+
+  return { writeFrame, finish, abort };
+};
+
+/** 32-bit float WAV, so the mix reaches the encoder without requantizing. */
+export const encodeWav = (channels: Float32Array[], sampleRate: number) => {
+  const length = channels[0]?.length ?? 0;
+  const dataBytes = length * channels.length * 4;
+  const wav = Buffer.alloc(44 + dataBytes);
+  wav.write("RIFF", 0, "ascii");
+  wav.writeUInt32LE(36 + dataBytes, 4);
+  wav.write("WAVE", 8, "ascii");
+  wav.write("fmt ", 12, "ascii");
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(3, 20);
+  wav.writeUInt16LE(channels.length, 22);
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * channels.length * 4, 28);
+  wav.writeUInt16LE(channels.length * 4, 32);
+  wav.writeUInt16LE(32, 34);
+  wav.write("data", 36, "ascii");
+  wav.writeUInt32LE(dataBytes, 40);
+  let offset = 44;
+  for (let frame = 0; frame < length; frame++) {
+    for (const channel of channels) {
+      wav.writeFloatLE(channel[frame], offset);
+      offset += 4;
+    }
+  }
+  return wav;
+};
@@ -0,0 +1,327 @@
+/**
+ * Renders a saved project to a video file without a browser:
+ *
+ *   render project.json --out video.mp4 --preset 1080x1920 --fps 30
+ *
+ * The project can be a `.vidproj.zip`, its unpacked folder or that folder's
+ * `manifest.json`. Frames go through the same renderer as the editor (on
+ * node-canvas), the soundtrack through the same Web Audio mix (on
+ * node-web-audio-api), and a local ffmpeg encodes both.
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, extname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { parseArgs } from "node:util";
+import { Canvas, Image, createCanvas, loadImage, registerFont } from "canvas";
+import * as webAudio from "node-web-audio-api";
+import { assetBytes } from "../utils/assets";
+import { defaultOnScreenChrome } from "../utils/chrome";
+import {
+  ExportFormat,
+  FRAME_SIZE_MAX,
+  FRAME_SIZE_MIN,
+  clampFrameSize,
+  exportFormats,
+  totalFrameCount
+} from "../utils/encoder";
+import { layerImageSources } from "../utils/layers";
+import { MIX_SAMPLE_RATE, SceneAudioSources, mixTimelineAudio } from "../utils/mix";
+import {
+  MANIFEST_PATH,
+  ProjectFileError,
+  parseProjectFile,
+  parseProjectManifest
+} from "../utils/projectFile";
+import {
+  buildSceneMetas,
+  createRenderScratch,
+  drawTimelineFrame,
+  frameTimeline,
+  renderableScenes,
+  visibleScenesAt
+} from "../utils/renderer";
+import { buildSubtitleTrack, toVtt } from "../utils/subtitles";
+import { buildTimeline } from "../utils/timeline";
+import { withIntroOutro } from "../utils/titleCards";
+import type { ProjectSnapshot } from "../utils/types";
+import {
+  ClipFrames,
+  RenderCliError,
+  decodeAudioFile,
+  encodeWav,
+  openClipFrames,
+  startVideoEncoder
+} from "./media";
+
+// mixTimelineAudio builds its graph on the global Web Audio classes.
+Object.assign(globalThis, {
+  AudioBuffer: webAudio.AudioBuffer,
+  OfflineAudioContext: webAudio.OfflineAudioContext
+});
+
+const USAGE = [
+  "Uso: render <proyecto> --out <video.mp4|video.webm>",
+  "       [--preset 1080x1920] [--fps 30] [--subtitles]"
+].join("\n");
+
+const formatByExtension: Record<string, ExportFormat> = {
+  ".mp4": "mp4",
+  ".webm": "webm"
+};
+
+// node-canvas canvases and images are drawing surfaces for the shared renderer as they are.
+type ClipSurface = {
+  frames: ClipFrames;
+  surface: Canvas;
+};
+
+const toArrayBuffer = (bytes: Uint8Array) =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const loadProject = async (path: string): Promise<ProjectSnapshot> => {
+  const info = await stat(path).catch(() => null);
+  if (!info) {
+    throw new RenderCliError(`No existe el proyecto "${path}".`);
+  }
+  if (!info.isDirectory() && extname(path).toLowerCase() === ".zip") {
+    return parseProjectFile(toArrayBuffer(await readFile(path)));
+  }
+  const manifestPath = info.isDirectory() ? join(path, MANIFEST_PATH) : path;
+  const root = resolve(dirname(manifestPath));
+  return parseProjectManifest(await readFile(manifestPath), (assetPath) => {
+    const file = resolve(root, assetPath);
+    const inside = relative(root, file);
+    // A manifest may only reference files inside its own folder.
+    if (inside === ".." || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+      throw new RenderCliError(`El recurso "${assetPath}" está fuera de la carpeta del proyecto.`);
+    }
+    return existsSync(file) ? readFileSync(file) : undefined;
+  });
+};
+
+const parsePreset = (value: string | undefined, project: ProjectSnapshot) => {
+  if (!value) return { width: project.canvasPreset.width, height: project.canvasPreset.height };
+  const match = value.match(/^(\d+)x(\d+)$/);
+  if (!match) {
+    throw new RenderCliError(
+      `El preset "${value}" no es válido; usa ANCHOxALTO, p. ej. 1080x1920.`
+    );
+  }
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  // Sizes the browser would clamp (see clampFrameSize) are rejected rather than changed.
+  if (clampFrameSize(width) !== width || clampFrameSize(height) !== height) {
+    const range = `${FRAME_SIZE_MIN} a ${FRAME_SIZE_MAX}`;
+    throw new RenderCliError(`El preset "${value}" no es válido; usa medidas pares de ${range}.`);
+  }
+  return { width, height };
+};
+
+const parseFps = (value: string | undefined, project: ProjectSnapshot) => {
+  const fps = value === undefined ? project.fps : Number(value);
+  if (!Number.isFinite(fps) || fps <= 0) {
+    throw new RenderCliError(`Los fps "${value}" no son válidos.`);
+  }
+  return fps;
+};
+
+const decodeAudioBuffer = async (path: string) => {
+  const channels = await decodeAudioFile(path, MIX_SAMPLE_RATE);
+  if (!channels) return null;
+  const buffer = new AudioBuffer({
+    length: channels[0].length,
+    numberOfChannels: channels.length,
+    sampleRate: MIX_SAMPLE_RATE
+  });
+  channels.forEach((data, index) => buffer.copyToChannel(data, index));
+  return buffer;
+};
+
+const render = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      preset: { type: "string" },
+      fps: { type: "string" },
+      subtitles: { type: "boolean" }
+    }
+  });
+  const [projectPath] = positionals;
+  if (!projectPath || !values.out) {
+    throw new RenderCliError(USAGE);
+  }
+  const out = resolve(values.out);
+  const format = formatByExtension[extname(out).toLowerCase()];
+  if (!format) {
+    throw new RenderCliError("La salida debe terminar en .mp4 o .webm.");
+  }
+  const profile = exportFormats.find(({ value }) => value === format);
+  if (values.subtitles && !profile?.supportsSubtitles) {
+    throw new RenderCliError(
+      `${profile?.label ?? format} no admite subtítulos incrustados; usa una salida .webm.`
+    );
+  }
+
+  const project = await loadProject(projectPath);
+  const { width, height } = parsePreset(values.preset, project);
+  const fps = parseFps(values.fps, project);
+  const chrome = { ...defaultOnScreenChrome, ...project.chrome };
+  const scenes = renderableScenes(withIntroOutro(project.scenes, project));
+  if (scenes.length === 0) {
+    throw new RenderCliError("El proyecto no tiene escenas con imagen, clip o tarjeta.");
+  }
+
+  const workDir = await mkdtemp(join(tmpdir(), "render-"));
+  const clips = new Map<string, ClipSurface>();
+  try {
+    const writeAsset = async (name: string, data: ArrayBuffer) => {
+      const path = join(workDir, name);
+      await writeFile(path, new Uint8Array(data));
+      return path;
+    };
+
+    // Fonts must be registered before the first canvas is created.
+    for (const font of project.fonts) {
+      const data = await assetBytes(font.assetId);
+      const path = await writeAsset(`font-${font.id}${extname(font.fileName)}`, data);
+      registerFont(path, { family: font.family });
+    }
+
+    const layerImages = new Map<string, Image>();
+    const layerSources = [
+      ...scenes.flatMap((scene) => layerImageSources(scene.layers)),
+      ...layerImageSources(project.watermark ? [project.watermark] : [])
+    ];
+    for (const source of new Set(layerSources)) {
+      layerImages.set(source, await loadImage(Buffer.from(await assetBytes(source))));
+    }
+
+    const clipPaths = new Map<string, string>();
+    const visuals: (Image | Canvas | undefined)[] = [];
+    for (const scene of scenes) {
+      if (!scene.clip) {
+        const image = scene.imageAssetId ? await assetBytes(scene.imageAssetId) : undefined;
+        visuals.push(image && (await loadImage(Buffer.from(image))));
+        continue;
+      }
+      const clipName = `clip-${scene.id}${extname(scene.clip.name)}`;
+      const path = await writeAsset(clipName, await assetBytes(scene.clip.assetId));
+      const frames = await openClipFrames(path, fps);
+      const surface = createCanvas(frames.width, frames.height);
+      clipPaths.set(scene.id, path);
+      clips.set(scene.id, { frames, surface });
+      visuals.push(surface);
+    }
+
+    const layout = frameTimeline(buildTimeline(scenes), project.canvasPreset, { width, height });
+    const metas = buildSceneMetas(layout.entries, visuals, project.captionStyle);
+    const totalFrames = totalFrameCount(layout.total, fps);
+
+    process.stderr.write("Mezclando audio...\n");
+    const sources: SceneAudioSources[] = [];
+    for (const scene of scenes) {
+      const clipPath =
+        scene.clip && scene.clip.audio !== "mute" ? clipPaths.get(scene.id) : undefined;
+      sources.push({
+        voice: scene.audioAssetId
+          ? await decodeAudioBuffer(
+              await writeAsset(`voice-${scene.id}`, await assetBytes(scene.audioAssetId))
+            )
+          : null,
+        clip: clipPath ? await decodeAudioBuffer(clipPath) : null
+      });
+    }
+    const music = project.music;
+    const musicBuffer = music
+      ? await decodeAudioBuffer(
+          await writeAsset(`music${extname(music.name)}`, await assetBytes(music.assetId))
+        )
+      : null;
+    const mix = await mixTimelineAudio({
+      entries: layout.entries,
+      sources,
+      total: layout.total,
+      music,
+      musicBuffer
+    });
+    // Same length as the browser export: whole frames only.
+    const audioFrames = Math.min(mix.length, Math.ceil((totalFrames / fps) * mix.sampleRate));
+    const audioPath = join(workDir, "mix.wav");
+    await writeFile(
+      audioPath,
+      encodeWav(
+        Array.from({ length: mix.numberOfChannels }, (_, index) =>
+          mix.getChannelData(index).subarray(0, audioFrames)
+        ),
+        mix.sampleRate
+      )
+    );
+
+    const subtitleTrack = buildSubtitleTrack(layout.entries);
+    const subtitlesPath =
+      values.subtitles && subtitleTrack.length > 0 ? join(workDir, "subtitles.vtt") : undefined;
+    if (subtitlesPath) {
+      await writeFile(subtitlesPath, toVtt(subtitleTrack));
+    }
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    const scratch = createRenderScratch(width, height, createCanvas);
+    const resolveImage = (src: string) => layerImages.get(src);
+    const encoder = startVideoEncoder({
+      out,
+      format,
+      width,
+      height,
+      fps,
+      audioPath,
+      subtitlesPath
+    });
+    try {
+      for (let index = 0; index < totalFrames; index++) {
+        const time = index / fps;
+        for (const { meta, clipTime } of visibleScenesAt(metas, time)) {
+          const clip = clips.get(meta.scene.id);
+          if (!clip || clipTime === undefined) continue;
+          const clipCtx = clip.surface.getContext("2d");
+          const frame = clipCtx.createImageData(clip.frames.width, clip.frames.height);
+          frame.data.set(await clip.frames.frameAt(clipTime));
+          clipCtx.putImageData(frame, 0, 0);
+        }
+        drawTimelineFrame(
+          ctx,
+          canvas,
+          metas,
+          time,
+          scratch,
+          project.watermark,
+          resolveImage,
+          chrome
+        );
+        await encoder.writeFrame(ctx.getImageData(0, 0, width, height).data);
+        process.stderr.write(`\rRenderizando ${Math.round(((index + 1) / totalFrames) * 100)}%`);
+      }
+      process.stderr.write("\n");
+      await encoder.finish();
+    } catch (error) {
+      encoder.abort();
+      throw error;
+    }
+    process.stderr.write(`Video generado: ${out}\n`);
+  } finally {
+    clips.forEach(({ frames }) => frames.close());
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
+
+render(process.argv.slice(2)).catch((error) => {
+  if (error instanceof RenderCliError || error instanceof ProjectFileError) {
+    console.error(error.message);
+  } else {
+    console.error("Hubo un problema al generar el video.", error);
+  }
+  process.exitCode = 1;
+});
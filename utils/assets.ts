@@ -0,0 +1,150 @@
+/**
+ * Content-addressed store for project media: scene images, voice-overs, clips,
+ * layer images, music and fonts. The project keeps only asset ids, so duplicated
+ * scenes, undo steps and re-imports of the same file share one Blob instead of
+ * each holding its own data URL or ArrayBuffer copy.
+ */
+
+import { layerImageSources } from "./layers";
+import type { ProjectSnapshot, Scene } from "./types";
+
+export type AssetId = string;
+
+/** Pixel size an image is decoded to; it is scaled down to cover it, never up. */
+export type ImageBounds = { width: number; height: number };
+
+type StoredAsset = {
+  blob: Blob;
+  /** Set once a scene has used the asset; only those are released when unused. */
+  referenced: boolean;
+  url?: string;
+  image?: { bounds: ImageBounds; bitmap: Promise<ImageBitmap> };
+};
+
+const store = new Map<AssetId, StoredAsset>();
+
+const toHex = (digest: ArrayBuffer) =>
+  Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/** Adds `data` to the store and returns its id; identical bytes always get the same id. */
+export const putAsset = async (data: Blob | ArrayBuffer, type = ""): Promise<AssetId> => {
+  const blob = data instanceof Blob ? data : new Blob([data], { type });
+  const id = `sha256-${toHex(await crypto.subtle.digest("SHA-256", await blob.arrayBuffer()))}`;
+  if (!store.has(id)) store.set(id, { blob, referenced: false });
+  return id;
+};
+
+/** Re-registers a Blob saved under its id earlier, without hashing it again. */
+export const restoreAsset = (id: AssetId, blob: Blob) => {
+  if (!store.has(id)) store.set(id, { blob, referenced: false });
+};
+
+const requireAsset = (id: AssetId) => {
+  const asset = store.get(id);
+  if (!asset) {
+    throw new Error(`No se encontró el recurso ${id}.`);
+  }
+  return asset;
+};
+
+/** Every asset a scene uses, including its clip and layer images. */
+export const sceneAssetIds = (scene: Scene) =>
+  [scene.imageAssetId, scene.audioAssetId, scene.clip?.assetId]
+    .filter((id): id is AssetId => Boolean(id))
+    .concat(layerImageSources(scene.layers));
+
+/** Assets of the project-wide settings: music, fonts and the watermark image. */
+export const settingsAssetIds = ({
+  music,
+  fonts,
+  watermark
+}: Pick<ProjectSnapshot, "music" | "fonts" | "watermark">) => [
+  ...(music ? [music.assetId] : []),
+  ...fonts.map((font) => font.assetId),
+  ...layerImageSources(watermark ? [watermark] : [])
+];
+
+export const getAssetBlob = (id: AssetId) => requireAsset(id).blob;
+
+export const assetSize = (id: AssetId) => store.get(id)?.blob.size ?? 0;
+
+/** A fresh copy of the bytes, safe to hand to APIs that detach buffers. */
+export const assetBytes = (id: AssetId) => requireAsset(id).blob.arrayBuffer();
+
+/** Object URL for <img> and CSS; undefined while the asset is not loaded. */
+export const assetUrl = (id: AssetId | undefined) => {
+  const asset = id ? store.get(id) : undefined;
+  if (!asset) return undefined;
+  asset.url ??= URL.createObjectURL(asset.blob);
+  return asset.url;
+};
+
+/** Decodes an image no larger than needed to cover `bounds`. */
+export const decodeImage = async (blob: Blob, bounds?: ImageBounds) => {
+  const full = await createImageBitmap(blob);
+  const scale = bounds
+    ? Math.max(bounds.width / full.width, bounds.height / full.height)
+    : 1;
+  if (scale >= 1) return full;
+  const resized = await createImageBitmap(full, {
+    resizeWidth: Math.max(1, Math.round(full.width * scale)),
+    resizeHeight: Math.max(1, Math.round(full.height * scale)),
+    resizeQuality: "high"
+  });
+  full.close();
+  return resized;
+};
+
+/** Extra room decoded when an image must grow, so zooming in step by step decodes rarely. */
+const GROW_HEADROOM = 1.5;
+
+const covers = (decoded: ImageBounds, requested: ImageBounds) =>
+  decoded.width >= requested.width && decoded.height >= requested.height;
+
+/**
+ * The image decoded once for drawing. Later requests reuse that bitmap unless
+ * they need more pixels, e.g. after switching to a larger resolution; the old
+ * bitmap is then closed, so every holder must load the image again.
+ */
+export const loadAssetImage = (id: AssetId, bounds: ImageBounds) => {
+  const asset = requireAsset(id);
+  if (!asset.image || !covers(asset.image.bounds, bounds)) {
+    const previous = asset.image?.bounds;
+    const next = previous
+      ? {
+          width: Math.ceil(Math.max(bounds.width, previous.width) * GROW_HEADROOM),
+          height: Math.ceil(Math.max(bounds.height, previous.height) * GROW_HEADROOM)
+        }
+      : bounds;
+    const replaced = asset.image?.bitmap;
+    const bitmap = decodeImage(asset.blob, next);
+    asset.image = { bounds: next, bitmap };
+    // The smaller bitmap keeps being drawn until the larger one is ready.
+    if (replaced) {
+      Promise.all([replaced, bitmap])
+        .then(([old]) => old.close())
+        .catch(() => undefined);
+    }
+  }
+  return asset.image.bitmap;
+};
+
+const releaseAsset = (asset: StoredAsset) => {
+  if (asset.url) URL.revokeObjectURL(asset.url);
+  asset.image?.bitmap.then((bitmap) => bitmap.close()).catch(() => undefined);
+};
+
+/**
+ * Frees every asset that scenes used before but `live` no longer mentions.
+ * Assets that were never referenced stay, since an import may be about to use them.
+ */
+export const releaseUnusedAssets = (live: Set<AssetId>) => {
+  store.forEach((asset, id) => {
+    if (live.has(id)) {
+      asset.referenced = true;
+    } else if (asset.referenced) {
+      releaseAsset(asset);
+      store.delete(id);
+    }
+  });
+};
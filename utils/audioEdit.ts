@@ -0,0 +1,97 @@
+import type { AudioEdit, Scene } from "./types";
+
+export const AUDIO_GAIN_MIN_DB = -24;
+export const AUDIO_GAIN_MAX_DB = 12;
+export const MIN_AUDIO_LENGTH = 0.1;
+
+const SILENCE_THRESHOLD = 0.02;
+const SILENCE_PADDING = 0.12;
+const SILENCE_WINDOW = 0.01;
+
+export const createAudioEdit = (duration: number): AudioEdit => ({
+  trimStart: 0,
+  trimEnd: duration,
+  fadeIn: 0,
+  fadeOut: 0,
+  gainDb: 0
+});
+
+export const sceneAudioEdit = (scene: Scene): AudioEdit | undefined => {
+  if (scene.audioDuration === undefined) return undefined;
+  return scene.audioEdit ?? createAudioEdit(scene.audioDuration);
+};
+
+/** Length of the scene audio after trimming, or 0 when the scene has none. */
+export const sceneAudioLength = (scene: Scene) => {
+  const edit = sceneAudioEdit(scene);
+  return edit ? Math.max(0, edit.trimEnd - edit.trimStart) : 0;
+};
+
+export const clampAudioEdit = (edit: AudioEdit, duration: number): AudioEdit => {
+  const trimStart = Math.min(Math.max(0, edit.trimStart), duration - MIN_AUDIO_LENGTH);
+  const trimEnd = Math.max(trimStart + MIN_AUDIO_LENGTH, Math.min(duration, edit.trimEnd));
+  const length = trimEnd - trimStart;
+  return {
+    trimStart,
+    trimEnd,
+    fadeIn: Math.min(Math.max(0, edit.fadeIn), length),
+    fadeOut: Math.min(Math.max(0, edit.fadeOut), length),
+    gainDb: Math.min(AUDIO_GAIN_MAX_DB, Math.max(AUDIO_GAIN_MIN_DB, edit.gainDb))
+  };
+};
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/** Applies gain and fades to `gain` for audio that starts playing at `start`. */
+export const scheduleAudioEdit = (gain: AudioParam, edit: AudioEdit, start: number) => {
+  const level = dbToGain(edit.gainDb);
+  const length = edit.trimEnd - edit.trimStart;
+  const fadeIn = Math.min(edit.fadeIn, length / 2);
+  const fadeOut = Math.min(edit.fadeOut, length / 2);
+  gain.setValueAtTime(fadeIn > 0 ? 0 : level, start);
+  if (fadeIn > 0) {
+    gain.linearRampToValueAtTime(level, start + fadeIn);
+  }
+  if (fadeOut > 0) {
+    gain.setValueAtTime(level, start + length - fadeOut);
+    gain.linearRampToValueAtTime(0, start + length);
+  }
+};
+
+/** Peak amplitude per bucket across all channels, for drawing waveforms. */
+export const computePeaks = (buffer: AudioBuffer, buckets: number) => {
+  const peaks = new Float32Array(buckets);
+  const size = buffer.length / buckets;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let bucket = 0; bucket < buckets; bucket++) {
+      const from = Math.floor(bucket * size);
+      const to = Math.min(data.length, Math.floor((bucket + 1) * size));
+      let peak = peaks[bucket];
+      for (let index = from; index < to; index++) {
+        const value = Math.abs(data[index]);
+        if (value > peak) peak = value;
+      }
+      peaks[bucket] = peak;
+    }
+  }
+  return peaks;
+};
+
+/**
+ * Finds where sound starts and stops, ignoring leading and trailing windows
+ * whose peak stays under `threshold`. Returns null if the whole take is silent.
+ */
+export const detectSilenceBounds = (buffer: AudioBuffer, threshold = SILENCE_THRESHOLD) => {
+  const windowCount = Math.max(1, Math.floor(buffer.duration / SILENCE_WINDOW));
+  const windowLength = buffer.duration / windowCount;
+  const peaks = computePeaks(buffer, windowCount);
+  const first = peaks.findIndex((peak) => peak >= threshold);
+  if (first === -1) return null;
+  let last = peaks.length - 1;
+  while (last > first && peaks[last] < threshold) last--;
+  return {
+    trimStart: Math.max(0, first * windowLength - SILENCE_PADDING),
+    trimEnd: Math.min(buffer.duration, (last + 1) * windowLength + SILENCE_PADDING)
+  };
+};
@@ -0,0 +1,200 @@
+import { AssetId, getAssetBlob, restoreAsset, sceneAssetIds, settingsAssetIds } from "./assets";
+import { withIntroOutro } from "./titleCards";
+import type { ProjectSnapshot } from "./types";
+
+const DB_NAME = "generador-ia-video";
+const DB_VERSION = 2;
+const PROJECTS_STORE = "projects";
+const SUMMARIES_STORE = "summaries";
+/** Asset Blobs keyed by their content-hash id, stored once for every project that uses them. */
+const ASSETS_STORE = "assets";
+const MAX_RECENT_PROJECTS = 12;
+const THUMBNAIL_WIDTH = 160;
+
+export type ProjectSummary = {
+  id: string;
+  name: string;
+  updatedAt: number;
+  sceneCount: number;
+  thumbnail?: string;
+};
+
+type ProjectRecord = {
+  id: string;
+  project: ProjectSnapshot;
+  /** Assets the project references; their Blobs are in the assets store. */
+  assetIds: AssetId[];
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: "id" });
+          summaries.createIndex("updatedAt", "updatedAt");
+        }
+        if (!db.objectStoreNames.contains(ASSETS_STORE)) {
+          db.createObjectStore(ASSETS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const isAutosaveAvailable = () => typeof indexedDB !== "undefined";
+
+export const createThumbnail = (dataUrl: string) =>
+  new Promise<string | undefined>((resolve) => {
+    const image = document.createElement("img");
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      const scale = THUMBNAIL_WIDTH / image.width;
+      canvas.width = THUMBNAIL_WIDTH;
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        resolve(undefined);
+        return;
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.7));
+    };
+    image.onerror = () => resolve(undefined);
+    image.src = dataUrl;
+  });
+
+export const describeProject = (project: ProjectSnapshot) => {
+  const first = project.scenes[0];
+  const dialogue = first?.dialogue.trim();
+  if (dialogue) {
+    return dialogue.length > 40 ? `${dialogue.slice(0, 40)}…` : dialogue;
+  }
+  return first?.imageName ?? "Proyecto sin título";
+};
+
+export const saveProjectRecord = async (
+  id: string,
+  project: ProjectSnapshot,
+  thumbnail?: string
+) => {
+  const assetIds = [
+    ...new Set([
+      ...withIntroOutro(project.scenes, project).flatMap(sceneAssetIds),
+      ...settingsAssetIds(project)
+    ])
+  ];
+  const blobs = assetIds.map((assetId) => [assetId, getAssetBlob(assetId)] as const);
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [PROJECTS_STORE, SUMMARIES_STORE, ASSETS_STORE],
+    "readwrite"
+  );
+  // Only assets the store doesn't have yet are written; saves after an edit
+  // usually write none.
+  const assets = transaction.objectStore(ASSETS_STORE);
+  for (const [assetId, blob] of blobs) {
+    const existing = assets.getKey(assetId);
+    existing.onsuccess = () => {
+      if (existing.result === undefined) assets.put(blob, assetId);
+    };
+  }
+  const summary: ProjectSummary = {
+    id,
+    name: describeProject(project),
+    updatedAt: Date.now(),
+    sceneCount: project.scenes.length,
+    thumbnail
+  };
+  const record: ProjectRecord = { id, project, assetIds };
+  transaction.objectStore(PROJECTS_STORE).put(record);
+  transaction.objectStore(SUMMARIES_STORE).put(summary);
+  await transactionDone(transaction);
+  await pruneProjects();
+  await deleteUnusedAssets();
+};
+
+export const listRecentProjects = async () => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SUMMARIES_STORE, "readonly");
+  const summaries = await requestToPromise<ProjectSummary[]>(
+    transaction.objectStore(SUMMARIES_STORE).getAll()
+  );
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProjectRecord = async (id: string) => {
+  const db = await openDatabase();
+  const record = await requestToPromise<ProjectRecord | undefined>(
+    db.transaction(PROJECTS_STORE, "readonly").objectStore(PROJECTS_STORE).get(id)
+  );
+  if (!record) return null;
+  const assets = db.transaction(ASSETS_STORE, "readonly").objectStore(ASSETS_STORE);
+  const blobs = await Promise.all(
+    record.assetIds.map((assetId) => requestToPromise<Blob | undefined>(assets.get(assetId)))
+  );
+  blobs.forEach((blob, index) => blob && restoreAsset(record.assetIds[index], blob));
+  return record.project;
+};
+
+export const deleteProjectRecord = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], "readwrite");
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  transaction.objectStore(SUMMARIES_STORE).delete(id);
+  await transactionDone(transaction);
+  await deleteUnusedAssets();
+};
+
+/** Deletes stored assets that no saved project references any more. */
+const deleteUnusedAssets = async () => {
+  const db = await openDatabase();
+  // One transaction, so a save can't add a reference between the read and the deletes.
+  const transaction = db.transaction([PROJECTS_STORE, ASSETS_STORE], "readwrite");
+  const assets = transaction.objectStore(ASSETS_STORE);
+  const records = transaction.objectStore(PROJECTS_STORE).getAll();
+  const keys = assets.getAllKeys();
+  keys.onsuccess = () => {
+    const live = new Set(
+      (records.result as ProjectRecord[]).flatMap(({ assetIds }) => assetIds)
+    );
+    keys.result.forEach((key) => {
+      if (!live.has(key as AssetId)) assets.delete(key);
+    });
+  };
+  await transactionDone(transaction);
+};
+
+const pruneProjects = async () => {
+  const summaries = await listRecentProjects();
+  const stale = summaries.slice(MAX_RECENT_PROJECTS);
+  for (const summary of stale) {
+    await deleteProjectRecord(summary.id);
+  }
+};
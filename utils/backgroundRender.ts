@@ -0,0 +1,161 @@
+import { AssetId, getAssetBlob, settingsAssetIds } from "./assets";
+import { seekVideo } from "./clips";
+import {
+  EncodeProgress,
+  ExportFormat,
+  RenderCancelledError,
+  UnsupportedCodecError,
+  throwIfCancelled
+} from "./encoder";
+import { layerImageSources } from "./layers";
+import type { Timeline } from "./timeline";
+import type { CaptionStyle, ImageLayer, OnScreenChrome, ProjectFont, Scene } from "./types";
+
+/**
+ * Everything the render worker needs, copied out of the editor state when the
+ * export starts, so later edits don't reach a render in progress.
+ */
+export type RenderJob = {
+  /** The editor's export timeline, drawn as laid out rather than rebuilt. */
+  timeline: Timeline;
+  /**
+   * Images and fonts by asset id, for the worker's own asset store; Blobs reach
+   * it without copying their bytes. Clips stay with the main thread's videos.
+   */
+  assets: Record<AssetId, Blob>;
+  captionStyle: CaptionStyle;
+  watermark?: ImageLayer;
+  chrome: OnScreenChrome;
+  fonts: ProjectFont[];
+  width: number;
+  height: number;
+  fps: number;
+  format: ExportFormat;
+  /** The timeline mix; Web Audio only exists on the main thread. */
+  audio: { channels: Float32Array<ArrayBuffer>[]; sampleRate: number } | null;
+  subtitles?: string;
+};
+
+export type RenderWorkerRequest =
+  | { type: "render"; job: RenderJob }
+  | { type: "cancel" }
+  | { type: "clipFrame"; requestId: number; bitmap: ImageBitmap | null };
+
+export type RenderWorkerResponse =
+  | { type: "progress"; progress: EncodeProgress }
+  | { type: "clipFrame"; requestId: number; sceneId: string; time: number }
+  | { type: "done"; blob: Blob }
+  | { type: "error"; name: string; message: string };
+
+type BackgroundRenderOptions = {
+  job: RenderJob;
+  /** Loaded clip videos by scene id; the worker asks for their frames as it renders. */
+  clipVideos: Map<string, HTMLVideoElement>;
+  signal: AbortSignal;
+  onProgress: (progress: EncodeProgress) => void;
+};
+
+export const isBackgroundRenderSupported = () =>
+  typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+
+// Errors cross the worker boundary as plain data; rebuild the ones callers tell apart.
+const toError = ({ name, message }: { name: string; message: string }) => {
+  if (name === "UnsupportedCodecError") return new UnsupportedCodecError(message);
+  if (name === "RenderCancelledError") return new RenderCancelledError(message);
+  return new Error(message);
+};
+
+export const renderAssets = (
+  scenes: Scene[],
+  { fonts, watermark }: Pick<RenderJob, "fonts" | "watermark">
+) => {
+  const assets: Record<AssetId, Blob> = {};
+  const ids = [
+    ...scenes.flatMap((scene) => [
+      ...(scene.imageAssetId ? [scene.imageAssetId] : []),
+      ...layerImageSources(scene.layers)
+    ]),
+    ...settingsAssetIds({ fonts, watermark })
+  ];
+  for (const id of ids) {
+    assets[id] = getAssetBlob(id);
+  }
+  return assets;
+};
+
+/** Splits a mix into channel copies that can be transferred to the worker. */
+export const transferableAudio = (buffer: AudioBuffer): RenderJob["audio"] => ({
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, index) =>
+    buffer.getChannelData(index).slice()
+  ),
+  sampleRate: buffer.sampleRate
+});
+
+const grabClipFrame = async (video: HTMLVideoElement | undefined, time: number) => {
+  if (!video) return null;
+  await seekVideo(video, time);
+  return createImageBitmap(video);
+};
+
+/**
+ * Renders and encodes `job` in a dedicated worker on an OffscreenCanvas. The
+ * main thread only serves clip frames, since <video> decoding needs the DOM.
+ */
+export const renderInBackground = ({
+  job,
+  clipVideos,
+  signal,
+  onProgress
+}: BackgroundRenderOptions) =>
+  new Promise<Blob>((resolve, reject) => {
+    throwIfCancelled(signal);
+    const worker = new Worker(new URL("./render.worker.ts", import.meta.url), {
+      type: "module"
+    });
+    const post = (message: RenderWorkerRequest, transfer: Transferable[] = []) =>
+      worker.postMessage(message, transfer);
+    const cancel = () => post({ type: "cancel" });
+    const finish = () => {
+      signal.removeEventListener("abort", cancel);
+      worker.terminate();
+    };
+    signal.addEventListener("abort", cancel, { once: true });
+
+    worker.addEventListener("message", (event: MessageEvent<RenderWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "progress":
+          onProgress(message.progress);
+          break;
+        case "clipFrame": {
+          const { requestId, sceneId, time } = message;
+          grabClipFrame(clipVideos.get(sceneId), time)
+            .catch((error) => {
+              console.error("No se pudo leer el fotograma del clip", error);
+              return null;
+            })
+            .then((bitmap) =>
+              post({ type: "clipFrame", requestId, bitmap }, bitmap ? [bitmap] : [])
+            );
+          break;
+        }
+        case "done":
+          finish();
+          resolve(message.blob);
+          break;
+        case "error":
+          finish();
+          reject(toError(message));
+          break;
+      }
+    });
+    worker.addEventListener("error", (event) => {
+      finish();
+      reject(new Error(event.message));
+    });
+
+    post(
+      { type: "render", job },
+      job.audio ? job.audio.channels.map((channel) => channel.buffer) : []
+    );
+  });
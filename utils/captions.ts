@@ -0,0 +1,324 @@
+import { assetBytes } from "./assets";
+import { createId } from "./ids";
+import type { DrawingContext } from "./surface";
+import type {
+  CaptionBackground,
+  CaptionPosition,
+  CaptionStyle,
+  CaptionTemplate,
+  ProjectFont,
+  Scene
+} from "./types";
+
+const TEMPLATES_STORAGE_KEY = "generador-ia-video:caption-templates";
+
+export const defaultCaptionStyle: CaptionStyle = {
+  fontFamily: "Inter",
+  fontWeight: 600,
+  fontSize: 2.6,
+  color: "#f8fafc",
+  strokeColor: "#000000",
+  strokeWidth: 0,
+  shadowColor: "#000000",
+  shadowBlur: 0,
+  background: "gradient",
+  backgroundColor: "#000000",
+  backgroundOpacity: 0.75,
+  align: "center",
+  position: "bottom",
+  offsetY: 0.8
+};
+
+export const builtInCaptionTemplates: CaptionTemplate[] = [
+  { id: "builtin-classic", name: "Clásico", style: defaultCaptionStyle },
+  {
+    id: "builtin-box",
+    name: "Caja sólida",
+    style: {
+      ...defaultCaptionStyle,
+      background: "box",
+      backgroundOpacity: 0.65,
+      fontWeight: 500
+    }
+  },
+  {
+    id: "builtin-headline",
+    name: "Titular superior",
+    style: {
+      ...defaultCaptionStyle,
+      fontWeight: 800,
+      fontSize: 3.6,
+      position: "top",
+      background: "none",
+      strokeWidth: 12,
+      shadowBlur: 30
+    }
+  },
+  {
+    id: "builtin-social",
+    name: "Redes (centro, contorno)",
+    style: {
+      ...defaultCaptionStyle,
+      fontWeight: 900,
+      fontSize: 4.2,
+      position: "middle",
+      background: "none",
+      strokeWidth: 18,
+      color: "#ffffff"
+    }
+  }
+];
+
+export const fontFamilyOptions = [
+  "Inter",
+  "system-ui",
+  "Georgia",
+  "Times New Roman",
+  "Arial",
+  "Helvetica",
+  "Verdana",
+  "Trebuchet MS",
+  "Courier New",
+  "Impact"
+];
+
+export const captionPositionOptions: { value: CaptionPosition; label: string }[] = [
+  { value: "top", label: "Arriba" },
+  { value: "middle", label: "Centro" },
+  { value: "bottom", label: "Abajo" },
+  { value: "custom", label: "Personalizada" }
+];
+
+export const captionBackgroundOptions: { value: CaptionBackground; label: string }[] = [
+  { value: "gradient", label: "Degradado" },
+  { value: "box", label: "Caja" },
+  { value: "none", label: "Sin fondo" }
+];
+
+export const resolveCaptionStyle = (
+  projectStyle: CaptionStyle,
+  scene: Scene
+): CaptionStyle => ({ ...projectStyle, ...scene.captionStyle });
+
+export const loadCaptionTemplates = (): CaptionTemplate[] => {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    const raw = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(
+        (item): item is CaptionTemplate =>
+          typeof item?.id === "string" &&
+          typeof item?.name === "string" &&
+          typeof item?.style === "object"
+      )
+      .map((item) => ({ ...item, style: { ...defaultCaptionStyle, ...item.style } }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveCaptionTemplates = (templates: CaptionTemplate[]) => {
+  localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+export const createCaptionTemplate = (
+  name: string,
+  style: CaptionStyle
+): CaptionTemplate => ({ id: createId(), name, style });
+
+export const fontFamilyFromFileName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim() || "Fuente";
+
+// Faces this module added to each font set. They are keyed by family and file
+// (its asset id is a content hash), so a new file under the same family replaces the old face.
+const projectFaces = new WeakMap<FontFaceSet, Map<string, FontFace>>();
+
+const fontFaceKey = (font: ProjectFont) => `${font.family}:${font.assetId}`;
+
+/**
+ * Makes `fontSet` (the document's by default; workers pass their own) hold
+ * exactly `fonts`: new files are loaded and faces of replaced or removed fonts deleted.
+ */
+export const registerProjectFonts = async (fonts: ProjectFont[], fontSet?: FontFaceSet) => {
+  const target = fontSet ?? (typeof document === "undefined" ? undefined : document.fonts);
+  if (!target || typeof FontFace === "undefined") return;
+  const faces = projectFaces.get(target) ?? new Map<string, FontFace>();
+  projectFaces.set(target, faces);
+  const wanted = new Set(fonts.map(fontFaceKey));
+  faces.forEach((face, key) => {
+    if (wanted.has(key)) return;
+    target.delete(face);
+    faces.delete(key);
+  });
+  await Promise.all(
+    fonts.map(async (font) => {
+      const key = fontFaceKey(font);
+      if (faces.has(key)) return;
+      const data = await assetBytes(font.assetId);
+      // Another call may have started loading the same file meanwhile.
+      if (faces.has(key)) return;
+      const face = new FontFace(font.family, data);
+      faces.set(key, face);
+      try {
+        await face.load();
+      } catch (error) {
+        faces.delete(key);
+        throw error;
+      }
+      if (faces.get(key) === face) target.add(face);
+    })
+  );
+};
+
+const captionFont = (style: CaptionStyle, fontSize: number) =>
+  `${style.fontWeight} ${fontSize}px "${style.fontFamily}", sans-serif`;
+
+const hexToRgba = (hex: string, alpha: number) => {
+  const value = hex.replace("#", "");
+  const full =
+    value.length === 3
+      ? value
+          .split("")
+          .map((char) => char + char)
+          .join("")
+      : value;
+  const number = parseInt(full, 16);
+  return `rgba(${(number >> 16) & 255}, ${(number >> 8) & 255}, ${number & 255}, ${alpha})`;
+};
+
+export const layoutLines = (ctx: DrawingContext, text: string, maxWidth: number) => {
+  const words = text.split(/\s+/);
+  const lines: string[][] = [];
+  let line: string[] = [];
+  for (let n = 0; n < words.length; n++) {
+    const testLine = [...line, words[n]];
+    if (ctx.measureText(testLine.join(" ")).width > maxWidth && n > 0) {
+      lines.push(line);
+      line = [words[n]];
+    } else {
+      line = testLine;
+    }
+  }
+  if (line.length) {
+    lines.push(line);
+  }
+  return lines;
+};
+
+const captionCenterY = (style: CaptionStyle, height: number) => {
+  switch (style.position) {
+    case "top":
+      return height * 0.14;
+    case "middle":
+      return height * 0.5;
+    case "custom":
+      return height * Math.min(0.95, Math.max(0.05, style.offsetY));
+    case "bottom":
+    default:
+      return height * 0.86;
+  }
+};
+
+const drawCaptionGradient = (
+  ctx: DrawingContext,
+  style: CaptionStyle,
+  width: number,
+  height: number,
+  centerY: number
+) => {
+  const bandHeight = height * 0.28;
+  const top = Math.max(0, centerY - bandHeight / 2);
+  const bottom = Math.min(height, centerY + bandHeight / 2);
+  const strong = hexToRgba(style.backgroundColor, style.backgroundOpacity);
+  const soft = hexToRgba(style.backgroundColor, style.backgroundOpacity * 0.6);
+  const clear = hexToRgba(style.backgroundColor, 0);
+  const gradient = ctx.createLinearGradient(0, top, 0, bottom);
+  if (style.position === "bottom") {
+    gradient.addColorStop(0, clear);
+    gradient.addColorStop(0.4, soft);
+    gradient.addColorStop(1, strong);
+  } else if (style.position === "top") {
+    gradient.addColorStop(0, strong);
+    gradient.addColorStop(0.6, soft);
+    gradient.addColorStop(1, clear);
+  } else {
+    gradient.addColorStop(0, clear);
+    gradient.addColorStop(0.5, strong);
+    gradient.addColorStop(1, clear);
+  }
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, top, width, bottom - top);
+};
+
+export const drawCaption = (
+  ctx: DrawingContext,
+  width: number,
+  height: number,
+  text: string,
+  style: CaptionStyle,
+  highlight?: { words: number; color: string }
+) => {
+  const fontSize = Math.max(12, (width * style.fontSize) / 100);
+  const lineHeight = fontSize * 1.3;
+  const maxWidth = width * 0.7;
+  ctx.save();
+  ctx.font = captionFont(style, fontSize);
+  ctx.textBaseline = "middle";
+  ctx.textAlign = "left";
+  const lines = layoutLines(ctx, text, maxWidth);
+  const lineWidths = lines.map((line) => ctx.measureText(line.join(" ")).width);
+  const blockHeight = lines.length * lineHeight;
+  const centerY = captionCenterY(style, height);
+  const firstLineY = centerY - blockHeight / 2 + lineHeight / 2;
+  const anchorX =
+    style.align === "left" || style.align === "start"
+      ? width * 0.15
+      : style.align === "right" || style.align === "end"
+      ? width * 0.85
+      : width / 2;
+  const lineStartX = (lineWidth: number) =>
+    style.align === "left" || style.align === "start"
+      ? anchorX
+      : style.align === "right" || style.align === "end"
+      ? anchorX - lineWidth
+      : anchorX - lineWidth / 2;
+
+  if (style.background === "gradient") {
+    drawCaptionGradient(ctx, style, width, height, centerY);
+  } else if (style.background === "box") {
+    const padding = fontSize * 0.5;
+    const boxWidth = Math.max(...lineWidths) + padding * 2;
+    const boxX = lineStartX(Math.max(...lineWidths)) - padding;
+    const boxY = centerY - blockHeight / 2 - padding * 0.6;
+    ctx.fillStyle = hexToRgba(style.backgroundColor, style.backgroundOpacity);
+    ctx.beginPath();
+    ctx.roundRect(boxX, boxY, boxWidth, blockHeight + padding * 1.2, padding * 0.6);
+    ctx.fill();
+  }
+
+  const spaceWidth = ctx.measureText(" ").width;
+  let wordIndex = 0;
+  lines.forEach((line, lineIndex) => {
+    const y = firstLineY + lineIndex * lineHeight;
+    let cursor = lineStartX(lineWidths[lineIndex]);
+    for (const word of line) {
+      const spoken = highlight && wordIndex < highlight.words;
+      if (style.strokeWidth > 0) {
+        ctx.lineWidth = (fontSize * style.strokeWidth) / 100;
+        ctx.lineJoin = "round";
+        ctx.strokeStyle = style.strokeColor;
+        ctx.strokeText(word, cursor, y);
+      }
+      ctx.shadowColor = style.shadowBlur > 0 ? style.shadowColor : "transparent";
+      ctx.shadowBlur = (fontSize * style.shadowBlur) / 100;
+      ctx.fillStyle = spoken ? highlight.color : style.color;
+      ctx.fillText(word, cursor, y);
+      ctx.shadowBlur = 0;
+      cursor += ctx.measureText(word).width + spaceWidth;
+      wordIndex++;
+    }
+  });
+  ctx.restore();
+};
@@ -0,0 +1,155 @@
+import type { DrawingContext } from "./surface";
+import type { ChromePosition, OnScreenChrome, ProgressMode, ProgressStyle } from "./types";
+
+const TRACK_COLOR = "rgba(255, 255, 255, 0.25)";
+const TEXT_COLOR = "#f8fafc";
+const BAR_WIDTH = 0.6;
+const SEGMENT_GAP = 0.006;
+const TEXT_SIZE = 0.028;
+
+/** The progress bar every project had before the chrome became configurable. */
+export const defaultOnScreenChrome: OnScreenChrome = {
+  progress: "scene",
+  progressStyle: "bar",
+  position: "bottom",
+  sceneCounter: false,
+  chapterTitle: false,
+  timestamp: false
+};
+
+export const progressModeOptions: { value: ProgressMode; label: string }[] = [
+  { value: "off", label: "Sin barra de progreso" },
+  { value: "scene", label: "Progreso de cada escena" },
+  { value: "video", label: "Progreso del video completo" }
+];
+
+export const progressStyleOptions: { value: ProgressStyle; label: string }[] = [
+  { value: "bar", label: "Barra centrada" },
+  { value: "line", label: "Línea fina a todo el ancho" },
+  { value: "segments", label: "Un segmento por escena" }
+];
+
+export const chromePositionOptions: { value: ChromePosition; label: string }[] = [
+  { value: "bottom", label: "Abajo" },
+  { value: "top", label: "Arriba" }
+];
+
+/** Where a frame sits in the video; scenes are counted without title cards. */
+export type ChromeState = {
+  /** 1-based. */
+  scene: number;
+  sceneCount: number;
+  /** Share of the current scene already shown, 0-1. */
+  sceneProgress: number;
+  time: number;
+  total: number;
+  chapter?: string;
+  accentColor: string;
+  fontFamily: string;
+};
+
+type FrameSize = { width: number; height: number };
+
+const formatClock = (seconds: number) => {
+  const rounded = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, "0")}`;
+};
+
+const progressTrack = (chrome: OnScreenChrome, { width, height }: FrameSize) => {
+  if (chrome.progressStyle === "line") {
+    const lineHeight = Math.max(4, height * 0.006);
+    return {
+      x: 0,
+      y: chrome.position === "top" ? 0 : height - lineHeight,
+      width,
+      height: lineHeight
+    };
+  }
+  const barWidth = width * BAR_WIDTH;
+  const barHeight = Math.max(10, height * 0.015);
+  const margin = Math.max(40, height * 0.04);
+  return {
+    x: (width - barWidth) / 2,
+    y: chrome.position === "top" ? margin : height - barHeight - margin,
+    width: barWidth,
+    height: barHeight
+  };
+};
+
+const drawProgress = (
+  ctx: DrawingContext,
+  chrome: OnScreenChrome,
+  track: ReturnType<typeof progressTrack>,
+  state: ChromeState
+) => {
+  if (chrome.progressStyle === "segments") {
+    // A video made only of title cards has no scene segments to draw.
+    if (state.sceneCount === 0) return;
+    const gap = track.width * SEGMENT_GAP;
+    const segmentWidth = (track.width - gap * (state.sceneCount - 1)) / state.sceneCount;
+    const current = state.scene - 1;
+    for (let index = 0; index < state.sceneCount; index++) {
+      const x = track.x + index * (segmentWidth + gap);
+      // Per-scene progress fills only the current segment; whole-video progress keeps the
+      // finished ones filled too.
+      const done = chrome.progress === "video" && index < current ? 1 : 0;
+      const fill = index === current ? state.sceneProgress : done;
+      ctx.fillStyle = TRACK_COLOR;
+      ctx.fillRect(x, track.y, segmentWidth, track.height);
+      ctx.fillStyle = state.accentColor;
+      ctx.fillRect(x, track.y, segmentWidth * fill, track.height);
+    }
+    return;
+  }
+  const videoProgress = state.total > 0 ? Math.min(1, state.time / state.total) : 1;
+  const completion = chrome.progress === "video" ? videoProgress : state.sceneProgress;
+  ctx.fillStyle = TRACK_COLOR;
+  ctx.fillRect(track.x, track.y, track.width, track.height);
+  ctx.fillStyle = state.accentColor;
+  ctx.fillRect(track.x, track.y, track.width * completion, track.height);
+};
+
+/**
+ * Draws the progress bar and the text overlays (scene counter, chapter and
+ * timestamp). The text shares one row next to the bar, toward the middle of the frame.
+ */
+export const drawOnScreenChrome = (
+  ctx: DrawingContext,
+  size: FrameSize,
+  chrome: OnScreenChrome,
+  state: ChromeState
+) => {
+  ctx.save();
+  const track = progressTrack(chrome, size);
+  if (chrome.progress !== "off") {
+    drawProgress(ctx, chrome, track, state);
+  }
+
+  const timestamp = `${formatClock(state.time)} / ${formatClock(state.total)}`;
+  const labels: [string | undefined, "left" | "center" | "right"][] = [
+    [chrome.sceneCounter ? `${state.scene}/${state.sceneCount}` : undefined, "left"],
+    [chrome.chapterTitle ? state.chapter : undefined, "center"],
+    [chrome.timestamp ? timestamp : undefined, "right"]
+  ];
+  if (labels.some(([text]) => text)) {
+    const fontSize = Math.max(12, Math.min(size.width, size.height) * TEXT_SIZE);
+    const gap = fontSize * 0.6;
+    const left = size.width * ((1 - BAR_WIDTH) / 2);
+    const anchors = { left, center: size.width / 2, right: size.width - left };
+    const y =
+      chrome.position === "top"
+        ? track.y + track.height + gap + fontSize / 2
+        : track.y - gap - fontSize / 2;
+    ctx.font = `600 ${fontSize}px "${state.fontFamily}", sans-serif`;
+    ctx.textBaseline = "middle";
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.shadowColor = "rgba(0, 0, 0, 0.6)";
+    ctx.shadowBlur = fontSize * 0.3;
+    for (const [text, align] of labels) {
+      if (!text) continue;
+      ctx.textAlign = align;
+      ctx.fillText(text, anchors[align], y);
+    }
+  }
+  ctx.restore();
+};
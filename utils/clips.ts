@@ -0,0 +1,111 @@
+import { getAssetBlob, putAsset } from "./assets";
+import type { DrawableImage } from "./surface";
+import type { ClipAudioMode, Scene, SceneClip } from "./types";
+
+const SEEK_TOLERANCE = 1 / 240;
+
+export type SceneVisual = HTMLImageElement | HTMLVideoElement | ImageBitmap;
+
+export const clipAudioOptions: { value: ClipAudioMode; label: string }[] = [
+  { value: "keep", label: "Mantener audio del clip" },
+  { value: "duck", label: "Bajar bajo la voz" },
+  { value: "mute", label: "Silenciar" }
+];
+
+export const isVideoFile = (file: File) => file.type.startsWith("video/");
+
+export const hasSceneVisual = (scene: Scene) => Boolean(scene.imageAssetId || scene.clip);
+
+type SizedImage = {
+  width: number;
+  height: number;
+  videoWidth?: number;
+  videoHeight?: number;
+  naturalWidth?: number;
+  naturalHeight?: number;
+};
+
+// Property checks rather than instanceof, so node-canvas images and canvases work too.
+export const visualSize = (visual: DrawableImage) => {
+  const image = visual as SizedImage;
+  if (image.videoWidth !== undefined) {
+    return { width: image.videoWidth, height: image.videoHeight ?? image.height };
+  }
+  return {
+    width: image.naturalWidth || image.width,
+    height: image.naturalHeight || image.height
+  };
+};
+
+export const clipLength = (clip: SceneClip) => Math.max(0, clip.trimEnd - clip.trimStart);
+
+/** Clip time on screen `elapsed` seconds into the scene; holds the last frame unless looping. */
+export const clipTimeAt = (clip: SceneClip, elapsed: number) => {
+  const length = clipLength(clip);
+  const offset = length <= 0 ? 0 : clip.loop ? elapsed % length : Math.min(elapsed, length);
+  return Math.min(clip.trimStart + offset, Math.max(0, clip.duration - SEEK_TOLERANCE));
+};
+
+export const loadClipVideo = (clip: Pick<SceneClip, "assetId">) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => {
+      URL.revokeObjectURL(video.src);
+      reject(video.error ?? new Error("No se pudo cargar el clip"));
+    };
+    video.src = URL.createObjectURL(getAssetBlob(clip.assetId));
+  });
+
+export const releaseClipVideo = (video: HTMLVideoElement) => {
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute("src");
+  video.load();
+};
+
+/** Resolves once the requested frame is decoded and ready to be drawn. */
+export const seekVideo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    if (
+      Math.abs(video.currentTime - time) < SEEK_TOLERANCE &&
+      video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA
+    ) {
+      resolve();
+      return;
+    }
+    const onSeeked = () => {
+      video.removeEventListener("error", onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener("seeked", onSeeked);
+      reject(video.error ?? new Error("No se pudo posicionar el clip"));
+    };
+    video.addEventListener("seeked", onSeeked, { once: true });
+    video.addEventListener("error", onError, { once: true });
+    video.currentTime = time;
+  });
+
+export const createClip = async (file: File): Promise<SceneClip> => {
+  const type = file.type || "video/mp4";
+  const assetId = await putAsset(file.type ? file : new Blob([file], { type }));
+  const video = await loadClipVideo({ assetId });
+  const duration = video.duration;
+  releaseClipVideo(video);
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error("El clip no informa su duración");
+  }
+  return {
+    name: file.name,
+    type,
+    assetId,
+    duration,
+    trimStart: 0,
+    trimEnd: duration,
+    loop: false,
+    audio: "keep"
+  };
+};
@@ -0,0 +1,386 @@
+import * as Mp4 from "mp4-muxer";
+import * as WebM from "webm-muxer";
+
+export type ExportFormat = "webm" | "mp4";
+
+/** The parts of an AudioBuffer the encoder reads; workers have no AudioBuffer class. */
+export type EncodableAudio = Pick<
+  AudioBuffer,
+  "numberOfChannels" | "sampleRate" | "length" | "getChannelData"
+>;
+
+export type EncodeOptions = {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  fps: number;
+  duration: number;
+  audio: EncodableAudio | null;
+  format: ExportFormat;
+  subtitles?: string;
+  drawFrame: (time: number) => void | Promise<void>;
+  onProgress?: (progress: EncodeProgress) => void;
+  /** Aborting stops the encode with a RenderCancelledError and closes the encoders. */
+  signal?: AbortSignal;
+  videoBitrate?: number;
+  audioBitrate?: number;
+};
+
+export type EncodeStage = "frames" | "audio" | "finalize";
+
+export const encodeStageLabels: Record<EncodeStage, string> = {
+  frames: "Renderizado de fotogramas",
+  audio: "Codificación de audio",
+  finalize: "Empaquetado"
+};
+
+export type EncodeProgress = {
+  stage: EncodeStage;
+  /** Frames drawn and sent to the encoder so far. */
+  frame: number;
+  totalFrames: number;
+};
+
+export const DEFAULT_VIDEO_BITRATE = 6_000_000;
+export const DEFAULT_AUDIO_BITRATE = 192_000;
+/** Seconds between forced key frames. */
+export const KEY_FRAME_SECONDS = 2;
+export const FRAME_SIZE_MIN = 128;
+export const FRAME_SIZE_MAX = 4096;
+
+// H.264 and VP9 at 4:2:0 need even dimensions.
+export const clampFrameSize = (value: number) =>
+  Math.min(FRAME_SIZE_MAX, Math.max(FRAME_SIZE_MIN, Math.round(value / 2) * 2));
+
+export class UnsupportedCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedCodecError";
+  }
+}
+
+export class RenderCancelledError extends Error {
+  constructor(message = "La exportación se canceló.") {
+    super(message);
+    this.name = "RenderCancelledError";
+  }
+}
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new RenderCancelledError();
+};
+
+type MuxerAdapter = {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  addSubtitles?: (vtt: string, onError: (error: Error) => void) => void;
+  finalize: () => ArrayBuffer;
+};
+
+type MuxerSetup = {
+  width: number;
+  height: number;
+  fps: number;
+  audio: EncodableAudio | null;
+  subtitles: boolean;
+  videoCodec: string;
+  audioCodec: string;
+};
+
+type FormatProfile = {
+  label: string;
+  mimeType: string;
+  videoCodecs: { encoder: string; muxer: string }[];
+  audioCodec: { encoder: string; muxer: string };
+  supportsSubtitles: boolean;
+  createMuxer: (setup: MuxerSetup) => MuxerAdapter;
+};
+
+const formatProfiles: Record<ExportFormat, FormatProfile> = {
+  webm: {
+    label: "WebM (VP9/Opus)",
+    mimeType: "video/webm",
+    videoCodecs: [
+      { encoder: "vp09.00.10.08", muxer: "V_VP9" },
+      { encoder: "vp8", muxer: "V_VP8" }
+    ],
+    audioCodec: { encoder: "opus", muxer: "A_OPUS" },
+    supportsSubtitles: true,
+    createMuxer: ({ width, height, fps, audio, subtitles, videoCodec, audioCodec }) => {
+      const options: WebM.MuxerOptions<WebM.ArrayBufferTarget> & {
+        subtitles?: { codec: string };
+      } = {
+        target: new WebM.ArrayBufferTarget(),
+        video: { codec: videoCodec, width, height, frameRate: fps },
+        audio: audio
+          ? {
+              codec: audioCodec,
+              numberOfChannels: audio.numberOfChannels,
+              sampleRate: audio.sampleRate
+            }
+          : undefined,
+        // Supported at runtime by webm-muxer but missing from its typings.
+        subtitles: subtitles ? { codec: "S_TEXT/WEBVTT" } : undefined,
+        firstTimestampBehavior: "offset"
+      };
+      const muxer = new WebM.Muxer(options);
+      return {
+        addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+        addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        addSubtitles: (vtt, onError) => {
+          const encoder = new WebM.SubtitleEncoder({
+            output: (chunk, meta) => muxer.addSubtitleChunk(chunk, meta),
+            error: onError
+          });
+          encoder.configure({ codec: "webvtt" });
+          encoder.encode(vtt);
+        },
+        finalize: () => {
+          muxer.finalize();
+          return muxer.target.buffer;
+        }
+      };
+    }
+  },
+  mp4: {
+    label: "MP4 (H.264/AAC)",
+    mimeType: "video/mp4",
+    videoCodecs: [
+      { encoder: "avc1.640033", muxer: "avc" },
+      { encoder: "avc1.4d0033", muxer: "avc" },
+      { encoder: "avc1.42003e", muxer: "avc" }
+    ],
+    audioCodec: { encoder: "mp4a.40.2", muxer: "aac" },
+    supportsSubtitles: false,
+    createMuxer: ({ width, height, fps, audio }) => {
+      const muxer = new Mp4.Muxer({
+        target: new Mp4.ArrayBufferTarget(),
+        video: { codec: "avc", width, height, frameRate: fps },
+        audio: audio
+          ? {
+              codec: "aac",
+              numberOfChannels: audio.numberOfChannels,
+              sampleRate: audio.sampleRate
+            }
+          : undefined,
+        fastStart: "in-memory",
+        firstTimestampBehavior: "offset"
+      });
+      return {
+        addVideoChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+        addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        finalize: () => {
+          muxer.finalize();
+          return muxer.target.buffer;
+        }
+      };
+    }
+  }
+};
+
+export const exportFormats = (Object.keys(formatProfiles) as ExportFormat[]).map(
+  (value) => ({
+    value,
+    label: formatProfiles[value].label,
+    supportsSubtitles: formatProfiles[value].supportsSubtitles
+  })
+);
+
+export const totalFrameCount = (duration: number, fps: number) =>
+  Math.max(1, Math.ceil(duration * fps));
+
+const AUDIO_CHUNK_FRAMES = 4096;
+const MAX_ENCODE_QUEUE = 8;
+
+export const isOfflineEncodingSupported = () =>
+  typeof VideoEncoder !== "undefined" &&
+  typeof VideoFrame !== "undefined" &&
+  typeof AudioEncoder !== "undefined" &&
+  typeof AudioData !== "undefined";
+
+const pickVideoCodec = async (
+  profile: FormatProfile,
+  width: number,
+  height: number,
+  fps: number,
+  bitrate: number
+) => {
+  for (const candidate of profile.videoCodecs) {
+    const { supported } = await VideoEncoder.isConfigSupported({
+      codec: candidate.encoder,
+      width,
+      height,
+      framerate: fps,
+      bitrate
+    });
+    if (supported) return candidate;
+  }
+  throw new UnsupportedCodecError(
+    `Tu navegador no puede codificar video para ${profile.label} a ${width}x${height}.`
+  );
+};
+
+const ensureAudioCodec = async (
+  profile: FormatProfile,
+  audio: EncodableAudio,
+  bitrate: number
+) => {
+  const { supported } = await AudioEncoder.isConfigSupported({
+    codec: profile.audioCodec.encoder,
+    numberOfChannels: audio.numberOfChannels,
+    sampleRate: audio.sampleRate,
+    bitrate
+  });
+  if (!supported) {
+    throw new UnsupportedCodecError(
+      `Tu navegador no puede codificar el audio para ${profile.label}.`
+    );
+  }
+};
+
+const waitForQueue = (encoder: VideoEncoder | AudioEncoder) =>
+  new Promise<void>((resolve) => {
+    if (encoder.encodeQueueSize <= MAX_ENCODE_QUEUE) {
+      resolve();
+      return;
+    }
+    encoder.addEventListener("dequeue", () => resolve(), { once: true });
+  });
+
+const encodeAudioTrack = async (
+  audio: EncodableAudio,
+  encoder: AudioEncoder,
+  duration: number,
+  signal?: AbortSignal
+) => {
+  const totalFrames = Math.min(
+    audio.length,
+    Math.ceil(duration * audio.sampleRate)
+  );
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, index) =>
+    audio.getChannelData(index)
+  );
+  for (let offset = 0; offset < totalFrames; offset += AUDIO_CHUNK_FRAMES) {
+    throwIfCancelled(signal);
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, totalFrames - offset);
+    const planar = new Float32Array(frames * channels.length);
+    channels.forEach((data, index) => {
+      planar.set(data.subarray(offset, offset + frames), index * frames);
+    });
+    const chunk = new AudioData({
+      format: "f32-planar",
+      sampleRate: audio.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels.length,
+      timestamp: Math.round((offset / audio.sampleRate) * 1_000_000),
+      data: planar
+    });
+    encoder.encode(chunk);
+    chunk.close();
+    await waitForQueue(encoder);
+  }
+};
+
+export const encodeVideo = async ({
+  canvas,
+  fps,
+  duration,
+  audio,
+  format,
+  subtitles,
+  drawFrame,
+  onProgress,
+  signal,
+  videoBitrate = DEFAULT_VIDEO_BITRATE,
+  audioBitrate = DEFAULT_AUDIO_BITRATE
+}: EncodeOptions) => {
+  const { width, height } = canvas;
+  const profile = formatProfiles[format];
+  if (subtitles && !profile.supportsSubtitles) {
+    throw new UnsupportedCodecError(
+      `${profile.label} no admite subtítulos incrustados; descarga el archivo .srt o .vtt.`
+    );
+  }
+  const videoCodec = await pickVideoCodec(profile, width, height, fps, videoBitrate);
+  if (audio) {
+    await ensureAudioCodec(profile, audio, audioBitrate);
+  }
+  throwIfCancelled(signal);
+  const muxer = profile.createMuxer({
+    width,
+    height,
+    fps,
+    audio,
+    subtitles: Boolean(subtitles),
+    videoCodec: videoCodec.muxer,
+    audioCodec: profile.audioCodec.muxer
+  });
+
+  let encoderError: Error | null = null;
+  const onError = (error: Error) => {
+    encoderError = error;
+  };
+
+  if (subtitles) {
+    muxer.addSubtitles?.(subtitles, onError);
+  }
+
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: onError
+  });
+  videoEncoder.configure({
+    codec: videoCodec.encoder,
+    width,
+    height,
+    framerate: fps,
+    bitrate: videoBitrate,
+    latencyMode: "quality",
+    ...(format === "mp4" ? { avc: { format: "avc" as const } } : {})
+  });
+
+  let audioEncoder: AudioEncoder | null = null;
+  if (audio) {
+    audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: onError
+    });
+    audioEncoder.configure({
+      codec: profile.audioCodec.encoder,
+      numberOfChannels: audio.numberOfChannels,
+      sampleRate: audio.sampleRate,
+      bitrate: audioBitrate
+    });
+  }
+
+  try {
+    const totalFrames = totalFrameCount(duration, fps);
+    const frameDuration = Math.round(1_000_000 / fps);
+    const keyFrameInterval = fps * KEY_FRAME_SECONDS;
+    for (let index = 0; index < totalFrames; index++) {
+      throwIfCancelled(signal);
+      if (encoderError) throw encoderError;
+      await drawFrame(index / fps);
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round((index * 1_000_000) / fps),
+        duration: frameDuration
+      });
+      videoEncoder.encode(frame, { keyFrame: index % keyFrameInterval === 0 });
+      frame.close();
+      await waitForQueue(videoEncoder);
+      onProgress?.({ stage: "frames", frame: index + 1, totalFrames });
+    }
+
+    if (audio && audioEncoder) {
+      onProgress?.({ stage: "audio", frame: totalFrames, totalFrames });
+      await encodeAudioTrack(audio, audioEncoder, totalFrames / fps, signal);
+    }
+
+    onProgress?.({ stage: "finalize", frame: totalFrames, totalFrames });
+    await videoEncoder.flush();
+    await audioEncoder?.flush();
+    if (encoderError) throw encoderError;
+    return new Blob([muxer.finalize()], { type: profile.mimeType });
+  } finally {
+    if (videoEncoder.state !== "closed") videoEncoder.close();
+    if (audioEncoder && audioEncoder.state !== "closed") audioEncoder.close();
+  }
+};
@@ -0,0 +1,64 @@
+import type { CropRect } from "./types";
+
+export type SafeAreaGuides = {
+  safe: boolean;
+  title: boolean;
+};
+
+type Insets = { top: number; right: number; bottom: number; left: number };
+
+// Broadcast action-safe (93%) and title-safe (90%) areas.
+const broadcastInsets: Record<keyof SafeAreaGuides, Insets> = {
+  safe: { top: 0.035, right: 0.035, bottom: 0.035, left: 0.035 },
+  title: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 }
+};
+
+// Vertical shorts and reels cover the top with the header, the bottom with the
+// caption and the right edge with the action buttons.
+const verticalInsets: Record<keyof SafeAreaGuides, Insets> = {
+  safe: { top: 0.1, right: 0.12, bottom: 0.2, left: 0.05 },
+  title: { top: 0.14, right: 0.16, bottom: 0.28, left: 0.08 }
+};
+
+const insetRect = ({ top, right, bottom, left }: Insets): CropRect => ({
+  x: left,
+  y: top,
+  width: 1 - left - right,
+  height: 1 - top - bottom
+});
+
+/** Guide rectangles in normalized frame coordinates for a `width`x`height` frame. */
+export const safeAreaRects = (width: number, height: number) => {
+  const insets = height > width ? verticalInsets : broadcastInsets;
+  return { safe: insetRect(insets.safe), title: insetRect(insets.title) };
+};
+
+export const drawSafeAreaGuides = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  guides: SafeAreaGuides
+) => {
+  const rects = safeAreaRects(width, height);
+  const entries: [keyof SafeAreaGuides, string, string][] = [
+    ["safe", "rgba(250, 204, 21, 0.9)", "Zona segura"],
+    ["title", "rgba(56, 189, 248, 0.9)", "Títulos"]
+  ];
+  const fontSize = Math.max(12, width * 0.012);
+  ctx.save();
+  ctx.lineWidth = Math.max(1, width * 0.0015);
+  ctx.setLineDash([fontSize * 0.6, fontSize * 0.4]);
+  ctx.font = `600 ${fontSize}px "Inter", sans-serif`;
+  ctx.textBaseline = "top";
+  for (const [key, color, label] of entries) {
+    if (!guides[key]) continue;
+    const rect = rects[key];
+    const x = rect.x * width;
+    const y = rect.y * height;
+    ctx.strokeStyle = color;
+    ctx.strokeRect(x, y, rect.width * width, rect.height * height);
+    ctx.fillStyle = color;
+    ctx.fillText(label, x + fontSize * 0.4, y + fontSize * 0.3);
+  }
+  ctx.restore();
+};
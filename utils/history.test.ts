@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { defaultCaptionStyle } from "./captions";
+import { defaultOnScreenChrome } from "./chrome";
+import {
+  HISTORY_LIMIT,
+  HistorySnapshot,
+  ProjectHistory,
+  emptyHistory,
+  recordHistory,
+  travelHistory
+} from "./history";
+
+const snapshot = (dialogue: string): HistorySnapshot => ({
+  scenes: [{ id: "a", dialogue, duration: 3, accentColor: "#000000" }],
+  settings: { captionStyle: defaultCaptionStyle, chrome: defaultOnScreenChrome }
+});
+
+const record = (history: ProjectHistory, before: string, after: string, now = 0, key?: string) =>
+  recordHistory(
+    history,
+    { label: "Editar", coalesceKey: key },
+    snapshot(before),
+    snapshot(after),
+    now
+  );
+
+const dialogueOf = (value: HistorySnapshot | undefined) => value?.scenes[0].dialogue;
+
+describe("recordHistory", () => {
+  it("stores the project before the command and clears redo steps", () => {
+    const redoable = { ...emptyHistory, future: record(emptyHistory, "a", "b").past };
+    const history = record(redoable, "b", "c");
+    assert.deepEqual(history.past.map(({ snapshot }) => dialogueOf(snapshot)), ["b"]);
+    assert.deepEqual(history.future, []);
+  });
+
+  it("merges commands with the same key inside the window", () => {
+    let history = record(emptyHistory, "a", "ab", 0, "texto");
+    history = record(history, "ab", "abc", 500, "texto");
+    assert.equal(history.past.length, 1);
+    assert.equal(dialogueOf(history.past[0].snapshot), "a");
+    history = record(history, "abc", "abcd", 2000, "texto");
+    assert.equal(history.past.length, 2);
+  });
+
+  it("keeps only the latest steps past the limit", () => {
+    let history = emptyHistory;
+    for (let step = 0; step <= HISTORY_LIMIT; step++) {
+      history = record(history, String(step), String(step + 1), step * 2000);
+    }
+    assert.equal(history.past.length, HISTORY_LIMIT);
+    assert.equal(dialogueOf(history.past[0].snapshot), "1");
+  });
+});
+
+describe("travelHistory", () => {
+  it("undoes and redoes several steps at once", () => {
+    let history = record(emptyHistory, "a", "b", 0);
+    history = record(history, "b", "c", 2000);
+    const undone = travelHistory(history, snapshot("c"), -2);
+    assert.equal(dialogueOf(undone?.snapshot), "a");
+    assert.equal(undone?.history.past.length, 0);
+    const redone = undone && travelHistory(undone.history, undone.snapshot, 1);
+    assert.equal(dialogueOf(redone?.snapshot), "b");
+    assert.equal(redone?.history.future.length, 1);
+  });
+
+  it("returns null when there is nothing to move to", () => {
+    assert.equal(travelHistory(emptyHistory, snapshot("a"), -1), null);
+  });
+});
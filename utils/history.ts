@@ -0,0 +1,127 @@
+import { AssetId, assetSize, sceneAssetIds, settingsAssetIds } from "./assets";
+import { createId } from "./ids";
+import { withIntroOutro } from "./titleCards";
+import type { ProjectSettings, Scene } from "./types";
+
+export const HISTORY_LIMIT = 100;
+/** Media bytes that only undo/redo steps keep alive; older steps are dropped past this. */
+export const HISTORY_MEMORY_LIMIT = 256 * 1024 * 1024;
+
+const COALESCE_WINDOW_MS = 1000;
+
+export type HistoryCommand = {
+  label: string;
+  /** Consecutive commands with the same key inside the window merge into one step. */
+  coalesceKey?: string;
+};
+
+/** What a history step restores: the scenes and the project-wide settings. */
+export type HistorySnapshot = {
+  scenes: Scene[];
+  settings: ProjectSettings;
+};
+
+export type HistoryEntry = HistoryCommand & {
+  id: string;
+  /** The project before the command for undo steps, after it for redo steps. */
+  snapshot: HistorySnapshot;
+  at: number;
+};
+
+export type ProjectHistory = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+export const emptyHistory: ProjectHistory = { past: [], future: [] };
+
+/** Assets a snapshot uses; fonts are left out as undo does not restore them. */
+export const snapshotAssetIds = ({ scenes, settings }: HistorySnapshot) => [
+  ...withIntroOutro(scenes, settings).flatMap(sceneAssetIds),
+  ...settingsAssetIds({ ...settings, fonts: [] })
+];
+
+// Snapshots only hold asset ids, so the media that costs memory is what the
+// current project no longer uses.
+export const retainedHistoryBytes = (history: ProjectHistory, current: HistorySnapshot) => {
+  const live = new Set(snapshotAssetIds(current));
+  const counted = new Set<AssetId>();
+  let total = 0;
+  for (const entry of [...history.past, ...history.future]) {
+    for (const assetId of snapshotAssetIds(entry.snapshot)) {
+      if (live.has(assetId) || counted.has(assetId)) continue;
+      counted.add(assetId);
+      total += assetSize(assetId);
+    }
+  }
+  return total;
+};
+
+/** Drops the oldest undo steps, then the furthest redo steps, until history fits. */
+const trimHistory = (history: ProjectHistory, current: HistorySnapshot): ProjectHistory => {
+  let past = history.past.slice(-HISTORY_LIMIT);
+  let future = history.future;
+  while (
+    (past.length > 0 || future.length > 0) &&
+    retainedHistoryBytes({ past, future }, current) > HISTORY_MEMORY_LIMIT
+  ) {
+    if (past.length > 0) {
+      past = past.slice(1);
+    } else {
+      future = future.slice(0, -1);
+    }
+  }
+  return { past, future };
+};
+
+export const recordHistory = (
+  history: ProjectHistory,
+  command: HistoryCommand,
+  before: HistorySnapshot,
+  after: HistorySnapshot,
+  now = Date.now()
+): ProjectHistory => {
+  const last = history.past[history.past.length - 1];
+  if (
+    command.coalesceKey &&
+    last?.coalesceKey === command.coalesceKey &&
+    history.future.length === 0 &&
+    now - last.at < COALESCE_WINDOW_MS
+  ) {
+    return { past: [...history.past.slice(0, -1), { ...last, at: now }], future: [] };
+  }
+  return trimHistory(
+    {
+      past: [...history.past, { ...command, id: createId(), snapshot: before, at: now }],
+      future: []
+    },
+    after
+  );
+};
+
+/**
+ * Moves `steps` through history (negative undoes, positive redoes) and returns
+ * the project to show, or null when there is nothing to move to.
+ */
+export const travelHistory = (
+  history: ProjectHistory,
+  current: HistorySnapshot,
+  steps: number
+) => {
+  let { past, future } = history;
+  let snapshot = current;
+  for (let moved = 0; moved < Math.abs(steps); moved++) {
+    const entry = steps < 0 ? past[past.length - 1] : future[0];
+    if (!entry) break;
+    const swapped = { ...entry, snapshot, coalesceKey: undefined };
+    if (steps < 0) {
+      past = past.slice(0, -1);
+      future = [swapped, ...future];
+    } else {
+      future = future.slice(1);
+      past = [...past, swapped];
+    }
+    snapshot = entry.snapshot;
+  }
+  return snapshot === current ? null : { snapshot, history: { past, future } };
+};
@@ -0,0 +1,230 @@
+import { createId } from "./ids";
+import type { DrawableImage, DrawingContext } from "./surface";
+import type { ImageLayer, SceneLayer, ShapeLayer, TextLayer } from "./types";
+
+const LAYER_BASE_WIDTH = 0.25;
+const LAYER_FADE = 0.25;
+
+export type LayerChanges = Partial<ImageLayer> | Partial<TextLayer> | Partial<ShapeLayer>;
+
+export type LayerImageResolver = (assetId: string) => DrawableImage | undefined;
+
+export type LayerBounds = {
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  rotation: number;
+};
+
+const nextZ = (layers: SceneLayer[]) =>
+  layers.reduce((max, layer) => Math.max(max, layer.z), 0) + 1;
+
+const baseLayer = (layers: SceneLayer[], name: string) => ({
+  id: createId(),
+  name,
+  x: 0.5,
+  y: 0.5,
+  scale: 1,
+  rotation: 0,
+  opacity: 1,
+  z: nextZ(layers),
+  enter: 0
+});
+
+export const createImageLayer = (
+  layers: SceneLayer[],
+  imageAssetId: string,
+  imageName: string,
+  aspect: number
+): ImageLayer => ({
+  ...baseLayer(layers, imageName),
+  kind: "image",
+  imageAssetId,
+  imageName,
+  aspect
+});
+
+export const createTextLayer = (layers: SceneLayer[]): TextLayer => ({
+  ...baseLayer(layers, "Texto"),
+  kind: "text",
+  y: 0.2,
+  text: "Nuevo texto",
+  color: "#ffffff",
+  fontFamily: "Inter",
+  fontWeight: 700,
+  fontSize: 4
+});
+
+export const createShapeLayer = (layers: SceneLayer[]): ShapeLayer => ({
+  ...baseLayer(layers, "Forma"),
+  kind: "shape",
+  shape: "rect",
+  color: "#3b82f6",
+  aspect: 1.6,
+  opacity: 0.8
+});
+
+export const createWatermarkLayer = (
+  imageAssetId: string,
+  imageName: string,
+  aspect: number
+): ImageLayer => ({
+  ...createImageLayer([], imageAssetId, imageName, aspect),
+  x: 0.9,
+  y: 0.1,
+  scale: 0.5,
+  opacity: 0.85
+});
+
+export const applyLayerChanges = (layer: SceneLayer, changes: LayerChanges) =>
+  ({ ...layer, ...changes }) as SceneLayer;
+
+export const sortLayers = (layers: SceneLayer[]) =>
+  [...layers].sort((a, b) => a.z - b.z);
+
+/** Opacity at `elapsed`, fading briefly in at `enter` and out at `exit`. */
+export const layerOpacityAt = (layer: SceneLayer, elapsed: number, total: number) => {
+  const exit = layer.exit ?? total;
+  if (elapsed < layer.enter || elapsed > exit) return 0;
+  const fadeIn = layer.enter > 0 ? Math.min(1, (elapsed - layer.enter) / LAYER_FADE) : 1;
+  const fadeOut = layer.exit !== undefined ? Math.min(1, (exit - elapsed) / LAYER_FADE) : 1;
+  return layer.opacity * Math.max(0, Math.min(fadeIn, fadeOut));
+};
+
+const textFont = (layer: TextLayer, width: number) =>
+  `${layer.fontWeight} ${Math.max(8, (width * layer.fontSize * layer.scale) / 100)}px "${
+    layer.fontFamily
+  }", sans-serif`;
+
+export const layerBounds = (
+  ctx: DrawingContext,
+  layer: SceneLayer,
+  width: number,
+  height: number
+): LayerBounds => {
+  const cx = layer.x * width;
+  const cy = layer.y * height;
+  const rotation = (layer.rotation * Math.PI) / 180;
+  if (layer.kind === "text") {
+    ctx.save();
+    ctx.font = textFont(layer, width);
+    const lines = layer.text.split("\n");
+    const fontSize = Math.max(8, (width * layer.fontSize * layer.scale) / 100);
+    const textWidth = Math.max(...lines.map((line) => ctx.measureText(line).width), 1);
+    ctx.restore();
+    return { cx, cy, width: textWidth, height: lines.length * fontSize * 1.2, rotation };
+  }
+  const boxWidth = width * LAYER_BASE_WIDTH * layer.scale;
+  return { cx, cy, width: boxWidth, height: boxWidth / layer.aspect, rotation };
+};
+
+export const drawLayer = (
+  ctx: DrawingContext,
+  layer: SceneLayer,
+  width: number,
+  height: number,
+  opacity: number,
+  resolveImage: LayerImageResolver
+) => {
+  if (opacity <= 0) return;
+  const bounds = layerBounds(ctx, layer, width, height);
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  ctx.translate(bounds.cx, bounds.cy);
+  ctx.rotate(bounds.rotation);
+  const left = -bounds.width / 2;
+  const top = -bounds.height / 2;
+  switch (layer.kind) {
+    case "image": {
+      const image = resolveImage(layer.imageAssetId);
+      if (image) {
+        ctx.drawImage(image, left, top, bounds.width, bounds.height);
+      }
+      break;
+    }
+    case "shape": {
+      ctx.fillStyle = layer.color;
+      ctx.beginPath();
+      if (layer.shape === "ellipse") {
+        ctx.ellipse(0, 0, bounds.width / 2, bounds.height / 2, 0, 0, Math.PI * 2);
+      } else {
+        ctx.rect(left, top, bounds.width, bounds.height);
+      }
+      ctx.fill();
+      break;
+    }
+    case "text": {
+      ctx.font = textFont(layer, width);
+      ctx.fillStyle = layer.color;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      const lines = layer.text.split("\n");
+      const lineHeight = bounds.height / lines.length;
+      lines.forEach((line, index) => {
+        ctx.fillText(line, 0, top + lineHeight * (index + 0.5));
+      });
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+export const drawLayers = (
+  ctx: DrawingContext,
+  layers: SceneLayer[],
+  width: number,
+  height: number,
+  elapsed: number,
+  total: number,
+  resolveImage: LayerImageResolver
+) => {
+  for (const layer of sortLayers(layers)) {
+    drawLayer(ctx, layer, width, height, layerOpacityAt(layer, elapsed, total), resolveImage);
+  }
+};
+
+export const drawLayerOutline = (
+  ctx: DrawingContext,
+  layer: SceneLayer,
+  width: number,
+  height: number,
+  color: string
+) => {
+  const bounds = layerBounds(ctx, layer, width, height);
+  ctx.save();
+  ctx.translate(bounds.cx, bounds.cy);
+  ctx.rotate(bounds.rotation);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = Math.max(2, width * 0.002);
+  ctx.setLineDash([width * 0.006, width * 0.004]);
+  ctx.strokeRect(-bounds.width / 2, -bounds.height / 2, bounds.width, bounds.height);
+  ctx.restore();
+};
+
+/** Topmost layer under the canvas point, accounting for each layer's rotation. */
+export const hitTestLayers = (
+  ctx: DrawingContext,
+  layers: SceneLayer[],
+  point: { x: number; y: number },
+  width: number,
+  height: number
+) => {
+  const ordered = sortLayers(layers).reverse();
+  return (
+    ordered.find((layer) => {
+      const bounds = layerBounds(ctx, layer, width, height);
+      const dx = point.x - bounds.cx;
+      const dy = point.y - bounds.cy;
+      const cos = Math.cos(-bounds.rotation);
+      const sin = Math.sin(-bounds.rotation);
+      const localX = dx * cos - dy * sin;
+      const localY = dx * sin + dy * cos;
+      return Math.abs(localX) <= bounds.width / 2 && Math.abs(localY) <= bounds.height / 2;
+    }) ?? null
+  );
+};
+
+/** Asset ids of the layers' images. */
+export const layerImageSources = (layers: SceneLayer[] | undefined) =>
+  (layers ?? []).flatMap((layer) => (layer.kind === "image" ? [layer.imageAssetId] : []));
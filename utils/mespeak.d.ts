@@ -0,0 +1,22 @@
+// meSpeak ships without typings; only the calls used by the TTS provider are declared.
+declare module "mespeak" {
+  type SpeakOptions = {
+    amplitude?: number;
+    pitch?: number;
+    speed?: number;
+    voice?: string;
+    wordgap?: number;
+    variant?: string;
+    rawdata: "arraybuffer";
+  };
+
+  const meSpeak: {
+    loadConfig: (data: object) => void;
+    loadVoice: (data: object) => void;
+    isConfigLoaded: () => boolean;
+    isVoiceLoaded: (voiceId: string) => boolean;
+    speak: (text: string, options: SpeakOptions) => ArrayBuffer | null;
+  };
+
+  export default meSpeak;
+}
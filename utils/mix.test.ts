@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { clampAudioEdit, dbToGain } from "./audioEdit";
+import { SceneAudioSources, narrationSpans, scheduleDuck } from "./mix";
+import { buildTimeline } from "./timeline";
+import type { Scene } from "./types";
+
+const voiced = (id: string, duration: number, audioDuration?: number): Scene => ({
+  id,
+  dialogue: "",
+  duration,
+  accentColor: "#000000",
+  audioDuration
+});
+
+const voice: SceneAudioSources = { voice: {} as AudioBuffer, clip: null };
+const silent: SceneAudioSources = { voice: null, clip: null };
+
+const recordingParam = () => {
+  const calls: [string, number, number][] = [];
+  const param = {
+    setValueAtTime: (value: number, time: number) => calls.push(["set", value, time]),
+    linearRampToValueAtTime: (value: number, time: number) => calls.push(["ramp", value, time])
+  } as unknown as AudioParam;
+  return { param, calls };
+};
+
+describe("narrationSpans", () => {
+  it("merges narration close enough for the duck ramps to overlap", () => {
+    const { entries } = buildTimeline([
+      voiced("a", 2, 2),
+      voiced("b", 3, 1),
+      voiced("c", 5),
+      voiced("d", 2, 2)
+    ]);
+    assert.deepEqual(narrationSpans(entries, [voice, voice, silent, voice]), [
+      { start: 0, end: 3 },
+      { start: 10, end: 12 }
+    ]);
+  });
+
+  it("ends a span at the scene even when the narration runs longer", () => {
+    const { entries } = buildTimeline([voiced("a", 1, 8)]);
+    assert.deepEqual(narrationSpans(entries, [voice]), [{ start: 0, end: 8 }]);
+    entries[0].duration = 4;
+    assert.deepEqual(narrationSpans(entries, [voice]), [{ start: 0, end: 4 }]);
+  });
+});
+
+describe("scheduleDuck", () => {
+  it("ramps down, holds for the narration and ramps back up", () => {
+    const { param, calls } = recordingParam();
+    scheduleDuck(param, 1, 3, 0.5);
+    assert.deepEqual(calls, [
+      ["set", 1, 1],
+      ["ramp", 0.5, 1.2],
+      ["set", 0.5, 3],
+      ["ramp", 1, 3.35]
+    ]);
+  });
+
+  it("holds at least until the ramp down ends for very short narration", () => {
+    const { param, calls } = recordingParam();
+    scheduleDuck(param, 1, 1.05, 0.5);
+    assert.deepEqual(calls[2], ["set", 0.5, 1.2]);
+  });
+});
+
+describe("clampAudioEdit", () => {
+  it("keeps trims inside the audio and fades inside the trimmed length", () => {
+    const edit = { trimStart: -1, trimEnd: 9, fadeIn: 5, fadeOut: -1, gainDb: 40 };
+    assert.deepEqual(clampAudioEdit(edit, 4), {
+      trimStart: 0,
+      trimEnd: 4,
+      fadeIn: 4,
+      fadeOut: 0,
+      gainDb: 12
+    });
+  });
+
+  it("converts decibels to linear gain", () => {
+    assert.equal(dbToGain(0), 1);
+    assert.ok(Math.abs(dbToGain(-6) - 0.501) < 0.001);
+  });
+});
@@ -0,0 +1,216 @@
+import { assetBytes } from "./assets";
+import { sceneAudioEdit, sceneAudioLength, scheduleAudioEdit } from "./audioEdit";
+import { clipLength } from "./clips";
+import type { TimelineEntry } from "./timeline";
+import { crossfadeCurve } from "./transitions";
+import type { MusicBed, Scene } from "./types";
+
+export const MIX_SAMPLE_RATE = 48_000;
+
+const CLIP_DUCK_LEVEL = 0.2;
+const DUCK_ATTACK = 0.2;
+const DUCK_RELEASE = 0.35;
+
+export type SceneAudioSources = {
+  voice: AudioBuffer | null;
+  clip: AudioBuffer | null;
+};
+
+export type TimelineMix = {
+  entries: TimelineEntry[];
+  sources: SceneAudioSources[];
+  total: number;
+  music?: MusicBed;
+  musicBuffer?: AudioBuffer | null;
+};
+
+export const createMusicBed = (
+  name: string,
+  type: string,
+  assetId: string,
+  duration: number
+): MusicBed => ({
+  name,
+  type,
+  assetId,
+  duration,
+  volume: 0.35,
+  fadeIn: 1.5,
+  fadeOut: 2,
+  offset: 0,
+  loop: true,
+  duckLevel: 0.3
+});
+
+const decodeContext = () => new OfflineAudioContext(2, 1, MIX_SAMPLE_RATE);
+
+export const decodeAudio = (data: ArrayBuffer) =>
+  decodeContext().decodeAudioData(data.slice(0));
+
+export const decodeSceneAudio = (scenes: Scene[]) => {
+  const ctx = decodeContext();
+  return Promise.all(
+    scenes.map(
+      async (scene): Promise<SceneAudioSources> => ({
+        voice: scene.audioAssetId
+          ? await ctx.decodeAudioData(await assetBytes(scene.audioAssetId))
+          : null,
+        // Clips without an audio track fail to decode; they simply stay silent.
+        clip:
+          scene.clip && scene.clip.audio !== "mute"
+            ? await ctx.decodeAudioData(await assetBytes(scene.clip.assetId)).catch(() => null)
+            : null
+      })
+    )
+  );
+};
+
+export const decodeMusicBed = async (music: MusicBed) =>
+  decodeAudio(await assetBytes(music.assetId));
+
+/** Lowers `gain` to `level` while narration plays between `start` and `end`. */
+export const scheduleDuck = (
+  gain: AudioParam,
+  start: number,
+  end: number,
+  level = CLIP_DUCK_LEVEL
+) => {
+  const held = Math.max(start + DUCK_ATTACK, end);
+  gain.setValueAtTime(1, start);
+  gain.linearRampToValueAtTime(level, start + DUCK_ATTACK);
+  gain.setValueAtTime(level, held);
+  gain.linearRampToValueAtTime(1, held + DUCK_RELEASE);
+};
+
+/** Narration spans on the timeline, merged so their duck ramps never overlap. */
+export const narrationSpans = (entries: TimelineEntry[], sources: SceneAudioSources[]) => {
+  const spans: { start: number; end: number }[] = [];
+  entries.forEach((entry, index) => {
+    const voice = sources[index]?.voice;
+    if (!voice) return;
+    const start = entry.start;
+    const end = entry.start + Math.min(sceneAudioLength(entry.scene), entry.duration);
+    const last = spans[spans.length - 1];
+    if (last && start <= last.end + DUCK_ATTACK + DUCK_RELEASE) {
+      last.end = Math.max(last.end, end);
+    } else {
+      spans.push({ start, end });
+    }
+  });
+  return spans;
+};
+
+const scheduleMusic = (
+  ctx: OfflineAudioContext,
+  music: MusicBed,
+  buffer: AudioBuffer,
+  total: number,
+  spans: { start: number; end: number }[]
+) => {
+  const offset = Math.min(Math.max(0, music.offset), buffer.duration);
+  const playable = music.loop ? total : Math.min(total, buffer.duration - offset);
+  if (playable <= 0) return;
+  const source = ctx.createBufferSource();
+  const fade = ctx.createGain();
+  const duck = ctx.createGain();
+  source.buffer = buffer;
+  source.loop = music.loop;
+  source.connect(fade).connect(duck).connect(ctx.destination);
+
+  const fadeIn = Math.min(music.fadeIn, playable / 2);
+  const fadeOut = Math.min(music.fadeOut, playable / 2);
+  fade.gain.setValueAtTime(fadeIn > 0 ? 0 : music.volume, 0);
+  if (fadeIn > 0) {
+    fade.gain.linearRampToValueAtTime(music.volume, fadeIn);
+  }
+  if (fadeOut > 0) {
+    fade.gain.setValueAtTime(music.volume, playable - fadeOut);
+    fade.gain.linearRampToValueAtTime(0, playable);
+  }
+
+  if (music.duckLevel < 1) {
+    for (const span of spans) {
+      scheduleDuck(duck.gain, span.start, span.end, music.duckLevel);
+    }
+  }
+
+  source.start(0, offset);
+  source.stop(playable);
+};
+
+/**
+ * Renders the full soundtrack: narration and clip audio per scene with
+ * transition crossfades, plus the project music bed ducked under narration.
+ * Export and the in-app preview both play this exact buffer.
+ */
+export const mixTimelineAudio = ({
+  entries,
+  sources,
+  total,
+  music,
+  musicBuffer
+}: TimelineMix) => {
+  const ctx = new OfflineAudioContext(
+    2,
+    Math.max(1, Math.ceil(total * MIX_SAMPLE_RATE)),
+    MIX_SAMPLE_RATE
+  );
+
+  const sceneFadeGain = (entry: TimelineEntry, audibleLength: number) => {
+    const gain = ctx.createGain();
+    gain.connect(ctx.destination);
+    if (entry.transitionIn > 0) {
+      gain.gain.setValueCurveAtTime(crossfadeCurve("in"), entry.start, entry.transitionIn);
+    }
+    if (entry.transitionOut > 0) {
+      const sceneEnd = entry.start + entry.duration;
+      const fadeStart = Math.max(
+        sceneEnd - entry.transitionOut,
+        entry.start + entry.transitionIn + 0.001
+      );
+      if (fadeStart < entry.start + audibleLength) {
+        gain.gain.setValueCurveAtTime(crossfadeCurve("out"), fadeStart, sceneEnd - fadeStart);
+      }
+    }
+    return gain;
+  };
+
+  entries.forEach((entry, index) => {
+    const { voice, clip: clipBuffer } = sources[index] ?? { voice: null, clip: null };
+    const edit = sceneAudioEdit(entry.scene);
+    const voiceLength = sceneAudioLength(entry.scene);
+    if (voice && edit) {
+      const source = ctx.createBufferSource();
+      const level = ctx.createGain();
+      source.buffer = voice;
+      source.connect(level).connect(sceneFadeGain(entry, voiceLength));
+      scheduleAudioEdit(level.gain, edit, entry.start);
+      source.start(entry.start, edit.trimStart, voiceLength);
+    }
+    const clip = entry.scene.clip;
+    if (clip && clipBuffer && clip.audio !== "mute") {
+      const source = ctx.createBufferSource();
+      const level = ctx.createGain();
+      source.buffer = clipBuffer;
+      source.connect(level).connect(sceneFadeGain(entry, entry.duration));
+      if (clip.audio === "duck" && voice) {
+        scheduleDuck(level.gain, entry.start, entry.start + voiceLength);
+      }
+      if (clip.loop) {
+        source.loop = true;
+        source.loopStart = clip.trimStart;
+        source.loopEnd = clip.trimEnd;
+        source.start(entry.start, clip.trimStart);
+      } else {
+        source.start(entry.start, clip.trimStart, clipLength(clip));
+      }
+      source.stop(entry.start + entry.duration);
+    }
+  });
+
+  if (music && musicBuffer) {
+    scheduleMusic(ctx, music, musicBuffer, total, narrationSpans(entries, sources));
+  }
+
+  return ctx.startRendering();
+};
@@ -0,0 +1,144 @@
+import type { CropRect, MotionEasing, SceneMotion } from "./types";
+
+export const motionEasings: Record<MotionEasing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t,
+  easeOut: (t) => 1 - (1 - t) * (1 - t),
+  easeInOut: (t) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2)
+};
+
+export const motionEasingOptions: { value: MotionEasing; label: string }[] = [
+  { value: "linear", label: "Lineal" },
+  { value: "easeIn", label: "Acelerar" },
+  { value: "easeOut", label: "Desacelerar" },
+  { value: "easeInOut", label: "Suave (entrada y salida)" }
+];
+
+const MIN_RECT_SIZE = 0.1;
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+/**
+ * Largest centered crop of the image that matches the canvas aspect ratio.
+ * Rects are normalized to the image, so the ratio between width and height
+ * is canvasAspect / imageAspect rather than the canvas aspect itself.
+ */
+export const fullFrameRect = (imageAspect: number, canvasAspect: number): CropRect => {
+  if (imageAspect > canvasAspect) {
+    const width = canvasAspect / imageAspect;
+    return { x: (1 - width) / 2, y: 0, width, height: 1 };
+  }
+  const height = imageAspect / canvasAspect;
+  return { x: 0, y: (1 - height) / 2, width: 1, height };
+};
+
+export const clampRect = (rect: CropRect): CropRect => {
+  const overflow = Math.max(rect.width, rect.height, 1);
+  const width = rect.width / overflow;
+  const height = rect.height / overflow;
+  return {
+    width,
+    height,
+    x: Math.min(Math.max(rect.x, 0), 1 - width),
+    y: Math.min(Math.max(rect.y, 0), 1 - height)
+  };
+};
+
+export const scaleRect = (rect: CropRect, factor: number): CropRect => {
+  const width = rect.width * factor;
+  const height = rect.height * factor;
+  return clampRect({
+    x: rect.x + (rect.width - width) / 2,
+    y: rect.y + (rect.height - height) / 2,
+    width,
+    height
+  });
+};
+
+export const moveRect = (rect: CropRect, dx: number, dy: number) =>
+  clampRect({ ...rect, x: rect.x + dx, y: rect.y + dy });
+
+/** Resizes from the corner opposite to `anchor`, keeping the rect's aspect ratio. */
+export const resizeRectFromAnchor = (
+  rect: CropRect,
+  anchor: { x: number; y: number },
+  pointer: { x: number; y: number }
+): CropRect => {
+  const ratio = rect.width / rect.height;
+  const width = Math.max(
+    MIN_RECT_SIZE,
+    Math.abs(pointer.x - anchor.x),
+    Math.abs(pointer.y - anchor.y) * ratio
+  );
+  const height = width / ratio;
+  return clampRect({
+    x: pointer.x < anchor.x ? anchor.x - width : anchor.x,
+    y: pointer.y < anchor.y ? anchor.y - height : anchor.y,
+    width,
+    height
+  });
+};
+
+/**
+ * `rect` reshaped to the canvas aspect around the same center and at the same
+ * zoom, so motion drawn for one canvas preset plays in any other. Rects already
+ * in the canvas aspect come back unchanged.
+ */
+export const reframeRect = (
+  rect: CropRect,
+  imageAspect: number,
+  canvasAspect: number
+): CropRect => {
+  const frame = fullFrameRect(imageAspect, canvasAspect);
+  // A full-frame rect spans the image on one side, so the longer side is the zoom.
+  const zoom = Math.max(rect.width, rect.height);
+  const width = frame.width * zoom;
+  const height = frame.height * zoom;
+  return clampRect({
+    x: rect.x + (rect.width - width) / 2,
+    y: rect.y + (rect.height - height) / 2,
+    width,
+    height
+  });
+};
+
+export const reframeMotion = (
+  motion: SceneMotion,
+  imageAspect: number,
+  canvasAspect: number
+): SceneMotion => ({
+  ...motion,
+  start: reframeRect(motion.start, imageAspect, canvasAspect),
+  end: reframeRect(motion.end, imageAspect, canvasAspect)
+});
+
+export const rectAtProgress = (motion: SceneMotion, progress: number): CropRect => {
+  const t = motionEasings[motion.easing](Math.min(1, Math.max(0, progress)));
+  return {
+    x: lerp(motion.start.x, motion.end.x, t),
+    y: lerp(motion.start.y, motion.end.y, t),
+    width: lerp(motion.start.width, motion.end.width, t),
+    height: lerp(motion.start.height, motion.end.height, t)
+  };
+};
+
+export const randomGentleMotion = (
+  imageAspect: number,
+  canvasAspect: number,
+  random: () => number = Math.random
+): SceneMotion => {
+  const frame = fullFrameRect(imageAspect, canvasAspect);
+  const wide = scaleRect(frame, 0.96);
+  const tight = scaleRect(frame, 0.78 + random() * 0.1);
+  const panned = clampRect({
+    ...tight,
+    x: frame.x + random() * (frame.width - tight.width),
+    y: frame.y + random() * (frame.height - tight.height)
+  });
+  const zoomIn = random() < 0.5;
+  return {
+    start: zoomIn ? wide : panned,
+    end: zoomIn ? panned : wide,
+    easing: "easeInOut"
+  };
+};
@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getAssetBlob, putAsset } from "./assets";
+import { defaultCaptionStyle } from "./captions";
+import { defaultOnScreenChrome } from "./chrome";
+import {
+  PROJECT_FORMAT,
+  PROJECT_FORMAT_VERSION,
+  ProjectFileError,
+  parseProjectFile,
+  parseProjectManifest,
+  serializeProject
+} from "./projectFile";
+import type { ProjectSnapshot } from "./types";
+
+const sceneManifest = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  dialogue: "Hola",
+  duration: 3,
+  accentColor: "#2563eb",
+  ...extra
+});
+
+const manifest = (extra: Record<string, unknown> = {}) => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_FORMAT_VERSION,
+  savedAt: "2024-01-01T00:00:00.000Z",
+  canvas: { label: "Horizontal", width: 1280, height: 720 },
+  fps: 30,
+  exportFormat: "webm",
+  captionStyle: defaultCaptionStyle,
+  fonts: [],
+  scenes: [sceneManifest("a")],
+  ...extra
+});
+
+const parse = (value: unknown, files: Record<string, Uint8Array> = {}) =>
+  parseProjectManifest(new TextEncoder().encode(JSON.stringify(value)), (path) => files[path]);
+
+const rejectsField = (value: unknown, field: string) =>
+  assert.rejects(parse(value), (error: Error) => {
+    assert.ok(error instanceof ProjectFileError);
+    assert.match(error.message, new RegExp(`"${field.replace(/[[\].]/g, "\\$&")}"`));
+    return true;
+  });
+
+describe("parseProjectManifest", () => {
+  it("reads a minimal project", async () => {
+    const project = await parse(manifest());
+    assert.equal(project.scenes[0].id, "a");
+    assert.deepEqual(project.canvasPreset, { label: "Horizontal", width: 1280, height: 720 });
+    assert.equal(project.fps, 30);
+    assert.equal(project.chrome, undefined);
+  });
+
+  it("rejects other formats and newer versions", async () => {
+    await assert.rejects(parse({ ...manifest(), format: "otro" }), ProjectFileError);
+    await assert.rejects(
+      parse(manifest({ version: PROJECT_FORMAT_VERSION + 1 })),
+      /actualiza la aplicación/
+    );
+  });
+
+  it("rejects projects without scenes or with invalid canvas sizes", async () => {
+    await assert.rejects(parse(manifest({ scenes: [] })), /no contiene escenas/);
+    await rejectsField(manifest({ canvas: { label: "x", width: 0, height: 720 } }), "canvas.width");
+  });
+
+  it("rejects a negative transition duration", async () => {
+    const transition = { type: "crossfade", duration: -1, color: "#000000" };
+    await rejectsField(
+      manifest({ scenes: [sceneManifest("a", { transition })] }),
+      "scenes[0].transition.duration"
+    );
+  });
+
+  it("rejects crop rects without area", async () => {
+    const rect = { x: 0, y: 0, width: 1, height: 1 };
+    const motion = { start: rect, end: { ...rect, height: 0 }, easing: "linear" };
+    await rejectsField(
+      manifest({ scenes: [sceneManifest("a", { motion })] }),
+      "scenes[0].motion.end.height"
+    );
+  });
+
+  it("rejects duplicate scene ids, including the intro and outro", async () => {
+    const scenes = [sceneManifest("a"), sceneManifest("a")];
+    await rejectsField(manifest({ scenes }), "scenes[1].id");
+    await rejectsField(manifest({ outro: sceneManifest("a") }), "outro.id");
+  });
+
+  it("reports asset files missing from the project", async () => {
+    const image = { path: "assets/a.png", type: "image/png" };
+    await assert.rejects(
+      parse(manifest({ scenes: [sceneManifest("a", { image })] })),
+      /Falta el recurso "assets\/a.png"/
+    );
+  });
+});
+
+describe("serializeProject", () => {
+  it("round-trips scenes and their media", async () => {
+    const imageAssetId = await putAsset(new Uint8Array([1, 2, 3]).buffer, "image/png");
+    const project: ProjectSnapshot = {
+      scenes: [
+        {
+          id: "a",
+          dialogue: "Hola",
+          duration: 3,
+          accentColor: "#2563eb",
+          imageAssetId,
+          imageName: "a.png",
+          transition: { type: "crossfade", duration: 0.5, color: "#000000" }
+        }
+      ],
+      canvasPreset: { label: "Vertical", width: 720, height: 1280 },
+      fps: 24,
+      exportFormat: "mp4",
+      captionStyle: defaultCaptionStyle,
+      fonts: [],
+      chrome: defaultOnScreenChrome
+    };
+    const blob = await serializeProject(project);
+    const restored = await parseProjectFile(await blob.arrayBuffer());
+    assert.equal(restored.scenes[0].imageAssetId, imageAssetId);
+    assert.deepEqual(
+      new Uint8Array(await getAssetBlob(imageAssetId).arrayBuffer()),
+      new Uint8Array([1, 2, 3])
+    );
+    assert.deepEqual(restored.scenes[0].transition, project.scenes[0].transition);
+    assert.deepEqual(restored.canvasPreset, project.canvasPreset);
+    assert.equal(restored.exportFormat, "mp4");
+    assert.deepEqual(restored.chrome, defaultOnScreenChrome);
+  });
+
+  it("rejects files that are not zips", async () => {
+    await assert.rejects(parseProjectFile(new ArrayBuffer(8)), /no es un zip/);
+  });
+});
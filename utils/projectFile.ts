@@ -0,0 +1,722 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { AssetId, getAssetBlob, putAsset } from "./assets";
+import { defaultCaptionStyle } from "./captions";
+import {
+  chromePositionOptions,
+  defaultOnScreenChrome,
+  progressModeOptions,
+  progressStyleOptions
+} from "./chrome";
+import type { ExportFormat } from "./encoder";
+import type {
+  AudioEdit,
+  CanvasPreset,
+  CaptionStyle,
+  ClipAudioMode,
+  CropRect,
+  FocalPoint,
+  ImageLayer,
+  MotionEasing,
+  MusicBed,
+  OnScreenChrome,
+  ProjectFont,
+  ProjectSnapshot,
+  Scene,
+  SceneClip,
+  SceneFit,
+  SceneLayer,
+  SceneMotion,
+  SceneNarration,
+  SceneTransition,
+  SubtitleCue,
+  TitleCard,
+  TitleCardBackground,
+  TransitionType
+} from "./types";
+
+export const PROJECT_FORMAT = "generador-ia-video";
+export const PROJECT_FORMAT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = ".vidproj.zip";
+
+export const MANIFEST_PATH = "manifest.json";
+
+type AssetRef = {
+  path: string;
+  name?: string;
+  type: string;
+};
+
+type LayerManifest =
+  | (Omit<ImageLayer, "imageAssetId" | "imageName"> & { image: AssetRef })
+  | Exclude<SceneLayer, ImageLayer>;
+
+type SceneManifest = {
+  id: string;
+  dialogue: string;
+  duration: number;
+  accentColor: string;
+  image?: AssetRef;
+  clip?: AssetRef & Omit<SceneClip, "assetId" | "name" | "type">;
+  audio?: AssetRef & { duration: number; edit?: AudioEdit };
+  motion?: SceneMotion;
+  transition?: SceneTransition;
+  cues?: SubtitleCue[];
+  karaoke?: boolean;
+  captionStyle?: Partial<CaptionStyle>;
+  layers?: LayerManifest[];
+  narration?: SceneNarration;
+  fit?: SceneFit;
+  focalPoint?: FocalPoint;
+  titleCard?: TitleCard;
+};
+
+type FontManifest = AssetRef & {
+  id: string;
+  family: string;
+};
+
+type ProjectManifest = {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  canvas: CanvasPreset;
+  fps: number;
+  exportFormat: ExportFormat;
+  captionStyle: CaptionStyle;
+  fonts: FontManifest[];
+  watermark?: LayerManifest;
+  music?: AssetRef & Omit<MusicBed, "assetId" | "name" | "type">;
+  scenes: SceneManifest[];
+  intro?: SceneManifest;
+  outro?: SceneManifest;
+  chrome?: OnScreenChrome;
+};
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectFileError";
+  }
+}
+
+const extensionByType: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/svg+xml": "svg",
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/mp4": "m4a",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov"
+};
+
+const extensionFor = (type: string) =>
+  extensionByType[type] ?? type.split("/")[1]?.replace(/[^a-z0-9]/gi, "") ?? "bin";
+
+const guessAudioType = (name?: string) => {
+  const extension = name?.split(".").pop()?.toLowerCase();
+  const match = Object.entries(extensionByType).find(
+    ([type, ext]) => type.startsWith("audio/") && ext === extension
+  );
+  return match?.[0] ?? "audio/webm";
+};
+
+const assetFileBytes = async (assetId: AssetId) =>
+  new Uint8Array(await getAssetBlob(assetId).arrayBuffer());
+
+export const serializeProject = async (project: ProjectSnapshot) => {
+  const files: Record<string, Uint8Array> = {};
+
+  const writeLayer = async (layer: SceneLayer, prefix: string): Promise<LayerManifest> => {
+    if (layer.kind !== "image") return layer;
+    const { imageAssetId, imageName, ...rest } = layer;
+    const { type } = getAssetBlob(imageAssetId);
+    const path = `${prefix}-layer-${layer.id}.${extensionFor(type)}`;
+    files[path] = await assetFileBytes(imageAssetId);
+    return { ...rest, image: { path, name: imageName, type } };
+  };
+
+  const writeScene = async (scene: Scene, prefix: string) => {
+    const entry: SceneManifest = {
+      id: scene.id,
+      dialogue: scene.dialogue,
+      duration: scene.duration,
+      accentColor: scene.accentColor,
+      motion: scene.motion,
+      transition: scene.transition,
+      cues: scene.cues,
+      karaoke: scene.karaoke,
+      captionStyle: scene.captionStyle,
+      narration: scene.narration,
+      fit: scene.fit,
+      focalPoint: scene.focalPoint,
+      titleCard: scene.titleCard
+    };
+    if (scene.imageAssetId) {
+      const { type } = getAssetBlob(scene.imageAssetId);
+      const path = `${prefix}-image.${extensionFor(type)}`;
+      files[path] = await assetFileBytes(scene.imageAssetId);
+      entry.image = { path, name: scene.imageName, type };
+    }
+    if (scene.clip) {
+      const { assetId, name, type, ...settings } = scene.clip;
+      const path = `${prefix}-clip.${extensionFor(type)}`;
+      files[path] = await assetFileBytes(assetId);
+      entry.clip = { path, name, type, ...settings };
+    }
+    if (scene.audioAssetId) {
+      const type = getAssetBlob(scene.audioAssetId).type || guessAudioType(scene.audioName);
+      const path = `${prefix}-audio.${extensionFor(type)}`;
+      files[path] = await assetFileBytes(scene.audioAssetId);
+      entry.audio = {
+        path,
+        name: scene.audioName,
+        type,
+        duration: scene.audioDuration ?? 0,
+        edit: scene.audioEdit
+      };
+    }
+    if (scene.layers?.length) {
+      entry.layers = [];
+      for (const layer of scene.layers) {
+        entry.layers.push(await writeLayer(layer, prefix));
+      }
+    }
+    return entry;
+  };
+
+  const scenes: SceneManifest[] = [];
+  for (const [index, scene] of project.scenes.entries()) {
+    const prefix = `assets/${String(index + 1).padStart(3, "0")}-${scene.id}`;
+    scenes.push(await writeScene(scene, prefix));
+  }
+
+  const fonts: FontManifest[] = [];
+  for (const font of project.fonts) {
+    const path = `assets/fonts/${font.id}-${font.fileName.replace(/[^\w.-]+/g, "_")}`;
+    files[path] = await assetFileBytes(font.assetId);
+    fonts.push({ id: font.id, family: font.family, name: font.fileName, path, type: font.type });
+  }
+
+  let music: ProjectManifest["music"];
+  if (project.music) {
+    const { assetId, name, type, ...settings } = project.music;
+    const path = `assets/music.${extensionFor(type)}`;
+    files[path] = await assetFileBytes(assetId);
+    music = { path, name, type, ...settings };
+  }
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    canvas: project.canvasPreset,
+    fps: project.fps,
+    exportFormat: project.exportFormat,
+    captionStyle: project.captionStyle,
+    fonts,
+    watermark: project.watermark
+      ? await writeLayer(project.watermark, "assets/watermark")
+      : undefined,
+    music,
+    scenes,
+    intro: project.intro ? await writeScene(project.intro, "assets/intro") : undefined,
+    outro: project.outro ? await writeScene(project.outro, "assets/outro") : undefined,
+    chrome: project.chrome
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  // Media is already compressed, so only the manifest benefits from deflate.
+  const zipped = zipSync(
+    Object.fromEntries(
+      Object.entries(files).map(([path, bytes]) => [
+        path,
+        [bytes, { level: path === MANIFEST_PATH ? 6 : 0 }]
+      ])
+    )
+  );
+  return new Blob([zipped], { type: "application/zip" });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const expectString = (value: unknown, field: string) => {
+  if (typeof value !== "string") {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return value;
+};
+
+const expectNumber = (value: unknown, field: string) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return value;
+};
+
+const expectPositiveNumber = (value: unknown, field: string) => {
+  const number = expectNumber(value, field);
+  if (number <= 0) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto debe ser un número positivo.`);
+  }
+  return number;
+};
+
+const expectNonNegativeNumber = (value: unknown, field: string) => {
+  const number = expectNumber(value, field);
+  if (number < 0) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no puede ser negativo.`);
+  }
+  return number;
+};
+
+const expectPositiveInteger = (value: unknown, field: string) => {
+  const number = expectNumber(value, field);
+  if (number <= 0 || !Number.isInteger(number)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto debe ser un entero positivo.`);
+  }
+  return number;
+};
+
+const readAssetRef = (value: unknown, field: string): AssetRef | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return {
+    path: expectString(value.path, `${field}.path`),
+    name: typeof value.name === "string" ? value.name : undefined,
+    type: expectString(value.type, `${field}.type`)
+  };
+};
+
+const readFocalPoint = (value: unknown, field: string): FocalPoint | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return {
+    x: expectNumber(value.x, `${field}.x`),
+    y: expectNumber(value.y, `${field}.y`)
+  };
+};
+
+const titleCardBackgrounds: TitleCardBackground[] = ["solid", "gradient"];
+
+const readTitleCard = (value: unknown, field: string): TitleCard | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return {
+    background: titleCardBackgrounds.includes(value.background as TitleCardBackground)
+      ? (value.background as TitleCardBackground)
+      : "solid",
+    title: expectString(value.title, `${field}.title`),
+    subtitle: expectString(value.subtitle, `${field}.subtitle`),
+    chapter: value.chapter === true
+  };
+};
+
+const motionEasings: MotionEasing[] = ["linear", "easeIn", "easeOut", "easeInOut"];
+
+const readCropRect = (value: unknown, field: string): CropRect => {
+  if (!isRecord(value)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return {
+    x: expectNumber(value.x, `${field}.x`),
+    y: expectNumber(value.y, `${field}.y`),
+    width: expectPositiveNumber(value.width, `${field}.width`),
+    height: expectPositiveNumber(value.height, `${field}.height`)
+  };
+};
+
+const readMotion = (value: unknown, field: string): SceneMotion | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !motionEasings.includes(value.easing as MotionEasing)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return {
+    start: readCropRect(value.start, `${field}.start`),
+    end: readCropRect(value.end, `${field}.end`),
+    easing: value.easing as MotionEasing
+  };
+};
+
+const transitionTypes: TransitionType[] = [
+  "none",
+  "crossfade",
+  "slideLeft",
+  "slideRight",
+  "wipe",
+  "zoom",
+  "dipToColor"
+];
+
+const readTransition = (
+  value: unknown,
+  field: string
+): SceneTransition | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !transitionTypes.includes(value.type as TransitionType)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return {
+    type: value.type as TransitionType,
+    duration: expectNonNegativeNumber(value.duration, `${field}.duration`),
+    color: expectString(value.color, `${field}.color`)
+  };
+};
+
+const readCues = (value: unknown, field: string): SubtitleCue[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return value.map((cue, index) => {
+    const cueField = `${field}[${index}]`;
+    if (!isRecord(cue)) {
+      throw new ProjectFileError(`El campo "${cueField}" del proyecto no es válido.`);
+    }
+    return {
+      id: expectString(cue.id, `${cueField}.id`),
+      start: expectNumber(cue.start, `${cueField}.start`),
+      end: expectNumber(cue.end, `${cueField}.end`),
+      text: expectString(cue.text, `${cueField}.text`)
+    };
+  });
+};
+
+const readAudioEdit = (value: unknown, field: string): AudioEdit | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return {
+    trimStart: expectNumber(value.trimStart, `${field}.trimStart`),
+    trimEnd: expectNumber(value.trimEnd, `${field}.trimEnd`),
+    fadeIn: expectNumber(value.fadeIn, `${field}.fadeIn`),
+    fadeOut: expectNumber(value.fadeOut, `${field}.fadeOut`),
+    gainDb: expectNumber(value.gainDb, `${field}.gainDb`)
+  };
+};
+
+const readNarration = (value: unknown, field: string): SceneNarration | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  return {
+    provider: expectString(value.provider, `${field}.provider`),
+    voice: expectString(value.voice, `${field}.voice`),
+    rate: expectNumber(value.rate, `${field}.rate`),
+    pitch: expectNumber(value.pitch, `${field}.pitch`),
+    generatedKey: typeof value.generatedKey === "string" ? value.generatedKey : undefined
+  };
+};
+
+const clipAudioModes: ClipAudioMode[] = ["keep", "mute", "duck"];
+
+const sceneFits: SceneFit[] = ["contain", "cover", "fill", "blur"];
+
+type AssetReader = (ref: AssetRef) => Promise<AssetId>;
+
+const readClip = async (
+  value: unknown,
+  field: string,
+  readAsset: AssetReader
+): Promise<SceneClip | undefined> => {
+  const ref = readAssetRef(value, field);
+  if (!ref || !isRecord(value)) return undefined;
+  return {
+    name: ref.name ?? ref.path,
+    type: ref.type,
+    assetId: await readAsset(ref),
+    duration: expectNumber(value.duration, `${field}.duration`),
+    trimStart: expectNumber(value.trimStart, `${field}.trimStart`),
+    trimEnd: expectNumber(value.trimEnd, `${field}.trimEnd`),
+    loop: value.loop === true,
+    audio: clipAudioModes.includes(value.audio as ClipAudioMode)
+      ? (value.audio as ClipAudioMode)
+      : "keep"
+  };
+};
+
+const readMusic = async (
+  value: unknown,
+  readAsset: AssetReader
+): Promise<MusicBed | undefined> => {
+  const ref = readAssetRef(value, "music");
+  if (!ref || !isRecord(value)) return undefined;
+  return {
+    name: ref.name ?? ref.path,
+    type: ref.type,
+    assetId: await readAsset(ref),
+    duration: expectNumber(value.duration, "music.duration"),
+    volume: expectNumber(value.volume, "music.volume"),
+    fadeIn: expectNumber(value.fadeIn, "music.fadeIn"),
+    fadeOut: expectNumber(value.fadeOut, "music.fadeOut"),
+    offset: expectNumber(value.offset, "music.offset"),
+    loop: value.loop === true,
+    duckLevel: expectNumber(value.duckLevel, "music.duckLevel")
+  };
+};
+
+const readCaptionStyle = (value: unknown): Partial<CaptionStyle> | undefined => {
+  if (!isRecord(value)) return undefined;
+  const style: Partial<CaptionStyle> = {};
+  const target = style as Record<string, unknown>;
+  for (const key of Object.keys(defaultCaptionStyle) as (keyof CaptionStyle)[]) {
+    if (typeof value[key] === typeof defaultCaptionStyle[key]) {
+      target[key] = value[key];
+    }
+  }
+  return Object.keys(style).length > 0 ? style : undefined;
+};
+
+// Unknown or missing settings fall back to the defaults instead of failing the load.
+const readChrome = (value: unknown): OnScreenChrome | undefined => {
+  if (!isRecord(value)) return undefined;
+  const choose = <T extends string>(options: { value: T }[], key: string, fallback: T) =>
+    options.some((option) => option.value === value[key]) ? (value[key] as T) : fallback;
+  return {
+    progress: choose(progressModeOptions, "progress", defaultOnScreenChrome.progress),
+    progressStyle: choose(
+      progressStyleOptions,
+      "progressStyle",
+      defaultOnScreenChrome.progressStyle
+    ),
+    position: choose(chromePositionOptions, "position", defaultOnScreenChrome.position),
+    sceneCounter: value.sceneCounter === true,
+    chapterTitle: value.chapterTitle === true,
+    timestamp: value.timestamp === true
+  };
+};
+
+const readLayer = async (
+  value: unknown,
+  field: string,
+  readAsset: AssetReader
+): Promise<SceneLayer> => {
+  if (!isRecord(value)) {
+    throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+  }
+  const base = {
+    id: expectString(value.id, `${field}.id`),
+    name: expectString(value.name, `${field}.name`),
+    x: expectNumber(value.x, `${field}.x`),
+    y: expectNumber(value.y, `${field}.y`),
+    scale: expectNumber(value.scale, `${field}.scale`),
+    rotation: expectNumber(value.rotation, `${field}.rotation`),
+    opacity: expectNumber(value.opacity, `${field}.opacity`),
+    z: expectNumber(value.z, `${field}.z`),
+    enter: expectNumber(value.enter, `${field}.enter`),
+    exit: value.exit === undefined ? undefined : expectNumber(value.exit, `${field}.exit`)
+  };
+  switch (value.kind) {
+    case "image": {
+      const image = readAssetRef(value.image, `${field}.image`);
+      if (!image) {
+        throw new ProjectFileError(`El campo "${field}.image" del proyecto no es válido.`);
+      }
+      return {
+        ...base,
+        kind: "image",
+        imageAssetId: await readAsset(image),
+        imageName: image.name,
+        aspect: expectNumber(value.aspect, `${field}.aspect`)
+      };
+    }
+    case "text":
+      return {
+        ...base,
+        kind: "text",
+        text: expectString(value.text, `${field}.text`),
+        color: expectString(value.color, `${field}.color`),
+        fontFamily: expectString(value.fontFamily, `${field}.fontFamily`),
+        fontWeight: expectNumber(value.fontWeight, `${field}.fontWeight`),
+        fontSize: expectNumber(value.fontSize, `${field}.fontSize`)
+      };
+    case "shape":
+      return {
+        ...base,
+        kind: "shape",
+        shape: value.shape === "ellipse" ? "ellipse" : "rect",
+        color: expectString(value.color, `${field}.color`),
+        aspect: expectNumber(value.aspect, `${field}.aspect`)
+      };
+    default:
+      throw new ProjectFileError(`El campo "${field}.kind" del proyecto no es válido.`);
+  }
+};
+
+const readManifest = (raw: Uint8Array) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(strFromU8(raw));
+  } catch {
+    throw new ProjectFileError("El manifiesto del proyecto está dañado.");
+  }
+  if (!isRecord(parsed) || parsed.format !== PROJECT_FORMAT) {
+    throw new ProjectFileError("El archivo no es un proyecto de este generador.");
+  }
+  const version = expectNumber(parsed.version, "version");
+  if (version > PROJECT_FORMAT_VERSION) {
+    throw new ProjectFileError(
+      `El proyecto usa la versión ${version} del formato; actualiza la aplicación para abrirlo.`
+    );
+  }
+  if (version < 1) {
+    throw new ProjectFileError(`La versión ${version} del formato ya no es compatible.`);
+  }
+  return parsed;
+};
+
+/**
+ * Reads an unpacked project: the manifest JSON plus a lookup for the asset
+ * files it references by relative path.
+ */
+export const parseProjectManifest = async (
+  raw: Uint8Array,
+  readFile: (path: string) => Uint8Array | undefined
+): Promise<ProjectSnapshot> => {
+  const manifest = readManifest(raw);
+
+  const readAsset: AssetReader = (ref) => {
+    const bytes = readFile(ref.path);
+    if (!bytes) {
+      throw new ProjectFileError(`Falta el recurso "${ref.path}" en el proyecto.`);
+    }
+    return putAsset(bytes.slice().buffer, ref.type);
+  };
+
+  if (!isRecord(manifest.canvas)) {
+    throw new ProjectFileError('El campo "canvas" del proyecto no es válido.');
+  }
+  const canvasPreset: CanvasPreset = {
+    label: expectString(manifest.canvas.label, "canvas.label"),
+    width: expectPositiveInteger(manifest.canvas.width, "canvas.width"),
+    height: expectPositiveInteger(manifest.canvas.height, "canvas.height")
+  };
+  const fps = expectPositiveNumber(manifest.fps, "fps");
+  const exportFormat: ExportFormat = manifest.exportFormat === "mp4" ? "mp4" : "webm";
+
+  if (!Array.isArray(manifest.scenes) || manifest.scenes.length === 0) {
+    throw new ProjectFileError("El proyecto no contiene escenas.");
+  }
+
+  // Scenes are edited, selected and undone by id, so every id must be unique.
+  const sceneIds = new Set<string>();
+  const readScene = async (value: unknown, field: string) => {
+    if (!isRecord(value)) {
+      throw new ProjectFileError(`El campo "${field}" del proyecto no es válido.`);
+    }
+    const id = expectString(value.id, `${field}.id`);
+    if (sceneIds.has(id)) {
+      throw new ProjectFileError(`El campo "${field}.id" del proyecto está repetido.`);
+    }
+    sceneIds.add(id);
+    const scene: Scene = {
+      id,
+      dialogue: expectString(value.dialogue, `${field}.dialogue`),
+      duration: expectNumber(value.duration, `${field}.duration`),
+      accentColor: expectString(value.accentColor, `${field}.accentColor`),
+      motion: readMotion(value.motion, `${field}.motion`),
+      transition: readTransition(value.transition, `${field}.transition`),
+      cues: readCues(value.cues, `${field}.cues`),
+      karaoke: value.karaoke === true,
+      captionStyle: readCaptionStyle(value.captionStyle),
+      narration: readNarration(value.narration, `${field}.narration`),
+      fit: sceneFits.includes(value.fit as SceneFit) ? (value.fit as SceneFit) : undefined,
+      focalPoint: readFocalPoint(value.focalPoint, `${field}.focalPoint`),
+      titleCard: readTitleCard(value.titleCard, `${field}.titleCard`)
+    };
+    const image = readAssetRef(value.image, `${field}.image`);
+    if (image) {
+      scene.imageAssetId = await readAsset(image);
+      scene.imageName = image.name;
+    }
+    scene.clip = await readClip(value.clip, `${field}.clip`, readAsset);
+    const audio = readAssetRef(value.audio, `${field}.audio`);
+    if (audio && isRecord(value.audio)) {
+      scene.audioAssetId = await readAsset(audio);
+      scene.audioName = audio.name;
+      scene.audioDuration = expectNumber(value.audio.duration, `${field}.audio.duration`);
+      scene.audioEdit = readAudioEdit(value.audio.edit, `${field}.audio.edit`);
+    }
+    if (Array.isArray(value.layers)) {
+      scene.layers = [];
+      for (const [layerIndex, layer] of value.layers.entries()) {
+        scene.layers.push(await readLayer(layer, `${field}.layers[${layerIndex}]`, readAsset));
+      }
+    }
+    return scene;
+  };
+
+  const scenes: Scene[] = [];
+  for (const [index, value] of manifest.scenes.entries()) {
+    scenes.push(await readScene(value, `scenes[${index}]`));
+  }
+
+  const fonts: ProjectFont[] = [];
+  if (Array.isArray(manifest.fonts)) {
+    for (const [index, value] of manifest.fonts.entries()) {
+      const field = `fonts[${index}]`;
+      const ref = readAssetRef(value, field);
+      if (!ref || !isRecord(value)) continue;
+      fonts.push({
+        id: expectString(value.id, `${field}.id`),
+        family: expectString(value.family, `${field}.family`),
+        fileName: ref.name ?? ref.path,
+        type: ref.type,
+        assetId: await readAsset(ref)
+      });
+    }
+  }
+
+  let watermark: ImageLayer | undefined;
+  if (manifest.watermark !== undefined) {
+    const layer = await readLayer(manifest.watermark, "watermark", readAsset);
+    if (layer.kind !== "image") {
+      throw new ProjectFileError('El campo "watermark" del proyecto no es válido.');
+    }
+    watermark = layer;
+  }
+
+  return {
+    scenes,
+    canvasPreset,
+    fps,
+    exportFormat,
+    captionStyle: { ...defaultCaptionStyle, ...readCaptionStyle(manifest.captionStyle) },
+    fonts,
+    watermark,
+    music: await readMusic(manifest.music, readAsset),
+    intro: manifest.intro === undefined ? undefined : await readScene(manifest.intro, "intro"),
+    outro: manifest.outro === undefined ? undefined : await readScene(manifest.outro, "outro"),
+    chrome: readChrome(manifest.chrome)
+  };
+};
+
+export const parseProjectFile = async (
+  buffer: ArrayBuffer
+): Promise<ProjectSnapshot> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(buffer));
+  } catch {
+    throw new ProjectFileError("El archivo de proyecto está dañado o no es un zip.");
+  }
+  const manifest = files[MANIFEST_PATH];
+  if (!manifest) {
+    throw new ProjectFileError("El archivo no contiene un manifiesto de proyecto.");
+  }
+  return parseProjectManifest(manifest, (path) => files[path]);
+};
@@ -0,0 +1,158 @@
+/**
+ * Dedicated worker that draws and encodes an export on an OffscreenCanvas, so
+ * the editor stays responsive while it runs. See `renderInBackground`.
+ */
+import { decodeImage, getAssetBlob, restoreAsset } from "./assets";
+import type { RenderJob, RenderWorkerRequest, RenderWorkerResponse } from "./backgroundRender";
+import { registerProjectFonts } from "./captions";
+import { EncodableAudio, encodeVideo } from "./encoder";
+import { layerImageSources } from "./layers";
+import {
+  buildSceneMetas,
+  createRenderScratch,
+  drawTimelineFrame,
+  sceneImageBounds,
+  visibleScenesAt
+} from "./renderer";
+
+// The app compiles against the DOM lib, where `self` is a Window. This file runs
+// as a dedicated worker, so `self` is redeclared with the worker globals used here.
+type RenderWorkerScope = {
+  fonts: FontFaceSet;
+  postMessage: (message: RenderWorkerResponse) => void;
+  addEventListener: (
+    type: "message",
+    listener: (event: MessageEvent<RenderWorkerRequest>) => void
+  ) => void;
+};
+
+declare const self: RenderWorkerScope;
+
+const pendingClipFrames = new Map<number, (bitmap: ImageBitmap | null) => void>();
+let nextRequestId = 0;
+let activeRender: AbortController | null = null;
+
+const createSurface = (width: number, height: number) => new OffscreenCanvas(width, height);
+
+const context2d = (surface: OffscreenCanvas) => {
+  const ctx = surface.getContext("2d");
+  if (!ctx) {
+    throw new Error("No se pudo obtener el contexto 2D");
+  }
+  return ctx;
+};
+
+const requestClipFrame = (sceneId: string, time: number) =>
+  new Promise<ImageBitmap | null>((resolve) => {
+    const requestId = nextRequestId++;
+    pendingClipFrames.set(requestId, resolve);
+    self.postMessage({ type: "clipFrame", requestId, sceneId, time });
+  });
+
+const toEncodableAudio = ({
+  channels,
+  sampleRate
+}: NonNullable<RenderJob["audio"]>): EncodableAudio => ({
+  numberOfChannels: channels.length,
+  sampleRate,
+  length: channels[0]?.length ?? 0,
+  // Like AudioBuffer, a missing channel is an error rather than undefined.
+  getChannelData: (index) => {
+    const data = channels[index];
+    if (!data) throw new RangeError(`El canal ${index} no existe.`);
+    return data;
+  }
+});
+
+const render = async (job: RenderJob, signal: AbortSignal) => {
+  const { timeline, width, height, fps, watermark, chrome } = job;
+  const scenes = timeline.entries.map(({ scene }) => scene);
+  Object.entries(job.assets).forEach(([assetId, blob]) => restoreAsset(assetId, blob));
+  await registerProjectFonts(job.fonts, self.fonts);
+
+  const layerImages = new Map<string, ImageBitmap>();
+  const layerSources = [
+    ...scenes.flatMap((scene) => layerImageSources(scene.layers)),
+    ...layerImageSources(watermark ? [watermark] : [])
+  ];
+  for (const source of new Set(layerSources)) {
+    layerImages.set(source, await decodeImage(getAssetBlob(source)));
+  }
+
+  // Clip scenes draw from a surface that gets each frame the main thread sends.
+  const clipSurfaces = new Map<string, OffscreenCanvas>();
+  const visuals: (OffscreenCanvas | ImageBitmap | undefined)[] = [];
+  for (const scene of scenes) {
+    if (scene.clip) {
+      const surface = createSurface(1, 1);
+      clipSurfaces.set(scene.id, surface);
+      visuals.push(surface);
+      continue;
+    }
+    const bounds = sceneImageBounds(scene, { width, height });
+    visuals.push(
+      scene.imageAssetId ? await decodeImage(getAssetBlob(scene.imageAssetId), bounds) : undefined
+    );
+  }
+
+  const metas = buildSceneMetas(timeline.entries, visuals, job.captionStyle);
+  const canvas = createSurface(width, height);
+  const ctx = context2d(canvas);
+  const scratch = createRenderScratch(width, height, createSurface);
+  const resolveImage = (src: string) => layerImages.get(src);
+
+  return encodeVideo({
+    canvas,
+    fps,
+    duration: timeline.total,
+    audio: job.audio ? toEncodableAudio(job.audio) : null,
+    format: job.format,
+    subtitles: job.subtitles,
+    signal,
+    drawFrame: async (time) => {
+      for (const { meta, clipTime } of visibleScenesAt(metas, time)) {
+        const surface = clipSurfaces.get(meta.scene.id);
+        if (!surface || clipTime === undefined) continue;
+        const bitmap = await requestClipFrame(meta.scene.id, clipTime);
+        if (!bitmap) continue;
+        if (surface.width !== bitmap.width || surface.height !== bitmap.height) {
+          surface.width = bitmap.width;
+          surface.height = bitmap.height;
+        }
+        context2d(surface).drawImage(bitmap, 0, 0);
+        bitmap.close();
+      }
+      drawTimelineFrame(ctx, canvas, metas, time, scratch, watermark, resolveImage, chrome);
+    },
+    onProgress: (progress) => self.postMessage({ type: "progress", progress })
+  });
+};
+
+self.addEventListener("message", ({ data }) => {
+  switch (data.type) {
+    case "render": {
+      const controller = new AbortController();
+      activeRender = controller;
+      render(data.job, controller.signal)
+        .then((blob) => self.postMessage({ type: "done", blob }))
+        .catch((error) =>
+          self.postMessage({
+            type: "error",
+            name: error instanceof Error ? error.name : "Error",
+            message: error instanceof Error ? error.message : String(error)
+          })
+        )
+        .finally(() => {
+          activeRender = null;
+        });
+      break;
+    }
+    case "cancel":
+      activeRender?.abort();
+      break;
+    case "clipFrame":
+      pendingClipFrames.get(data.requestId)?.(data.bitmap);
+      pendingClipFrames.delete(data.requestId);
+      break;
+  }
+});
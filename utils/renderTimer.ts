@@ -0,0 +1,39 @@
+import type { StageTiming } from "./types";
+
+/** Frames to time before estimating the rest; the first ones include encoder warm-up. */
+const ETA_MIN_FRAMES = 15;
+
+/**
+ * Times the stages of an export. Stages that repeat (one per format in the
+ * export queue) add up under the same label.
+ */
+export const createRenderTimer = (now: () => number = () => performance.now()) => {
+  const totals = new Map<string, number>();
+  let current: { label: string; startedAt: number } | null = null;
+
+  const end = () => {
+    if (!current) return;
+    const elapsed = now() - current.startedAt;
+    totals.set(current.label, (totals.get(current.label) ?? 0) + elapsed);
+    current = null;
+  };
+
+  const begin = (label: string) => {
+    if (current?.label === label) return;
+    end();
+    current = { label, startedAt: now() };
+  };
+
+  /** Seconds left in the current stage, extrapolated from `done` of `total` items. */
+  const remaining = (done: number, total: number) => {
+    if (!current || done < ETA_MIN_FRAMES) return undefined;
+    return ((now() - current.startedAt) / done) * (total - done) / 1000;
+  };
+
+  const timings = (): StageTiming[] =>
+    Array.from(totals, ([label, elapsed]) => ({ label, seconds: elapsed / 1000 }));
+
+  return { begin, end, remaining, timings };
+};
+
+export type RenderTimer = ReturnType<typeof createRenderTimer>;
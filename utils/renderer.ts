@@ -0,0 +1,443 @@
+import type { ImageBounds } from "./assets";
+import { drawCaption, resolveCaptionStyle } from "./captions";
+import { ChromeState, drawOnScreenChrome } from "./chrome";
+import { clipTimeAt, hasSceneVisual, visualSize } from "./clips";
+import { LayerImageResolver, drawLayer, drawLayers } from "./layers";
+import { rectAtProgress, reframeMotion } from "./motion";
+import { activeCue, sceneCues, spokenWordCount } from "./subtitles";
+import type { DrawableImage, DrawingContext, DrawingSurface } from "./surface";
+import type { Timeline, TimelineEntry } from "./timeline";
+import { drawTitleCard } from "./titleCards";
+import { compositeTransition } from "./transitions";
+import type {
+  CaptionStyle,
+  CropRect,
+  FocalPoint,
+  ImageLayer,
+  OnScreenChrome,
+  Scene,
+  SceneFit
+} from "./types";
+
+// Everything here draws through the 2D canvas API only (see ./surface), so the
+// browser editor, the export worker and the Node CLI render identical frames.
+
+export type SceneMeta = TimelineEntry & {
+  /** The image or clip; for title cards, the optional logo. */
+  visual?: DrawableImage;
+  captionStyle: CaptionStyle;
+};
+
+/** Offscreen canvases reused across frames. */
+export type RenderScratch = {
+  outgoing: DrawingSurface;
+  incoming: DrawingSurface;
+  /** Low-resolution copy of the frame; upscaling it gives the blurred background. */
+  backdrop: DrawingSurface;
+};
+
+export type CanvasFactory = (width: number, height: number) => DrawingSurface;
+
+type FrameSize = { width: number; height: number };
+
+const BACKGROUND = "#020409";
+const BACKDROP_DOWNSCALE = 24;
+const FRAME_CENTER: FocalPoint = { x: 0.5, y: 0.5 };
+
+export const sceneFitOptions: { value: SceneFit; label: string }[] = [
+  { value: "contain", label: "Completa con barras" },
+  { value: "cover", label: "Cubrir el cuadro (recorta bordes)" },
+  { value: "fill", label: "Estirar" },
+  { value: "blur", label: "Completa sobre fondo desenfocado" }
+];
+
+/**
+ * Image size that still fills a `width`x`height` frame at the scene's tightest
+ * motion crop, whatever aspect the crops get reframed to.
+ */
+export const sceneImageBounds = (scene: Scene, { width, height }: FrameSize): ImageBounds => {
+  const crops = scene.motion ? [scene.motion.start, scene.motion.end] : [];
+  const zoom = Math.min(1, ...crops.map((crop) => Math.max(crop.width, crop.height)));
+  return { width: Math.ceil(width / zoom), height: Math.ceil(height / zoom) };
+};
+
+const fillFrameScene = (scene: Scene): Scene =>
+  (scene.fit ?? "contain") === "contain" ? { ...scene, fit: "cover" } : scene;
+
+/**
+ * The timeline as rendered at `frame`. Scenes are framed for the project's
+ * canvas; at another aspect they cover the frame around their focal point
+ * instead of letterboxing. Every export path goes through here.
+ */
+export const frameTimeline = (
+  timeline: Timeline,
+  canvas: FrameSize,
+  frame: FrameSize
+): Timeline =>
+  frame.width * canvas.height === frame.height * canvas.width
+    ? timeline
+    : {
+        ...timeline,
+        entries: timeline.entries.map((entry) => ({ ...entry, scene: fillFrameScene(entry.scene) }))
+      };
+
+/**
+ * Scenes that appear on the rendered timeline: title cards, and scenes with an
+ * image or clip. The rest are skipped.
+ */
+export const renderableScenes = (scenes: Scene[]) =>
+  scenes.filter((scene) => scene.titleCard || hasSceneVisual(scene));
+
+export const buildSceneMetas = (
+  entries: TimelineEntry[],
+  visuals: (DrawableImage | undefined)[],
+  captionStyle: CaptionStyle
+): SceneMeta[] =>
+  entries.map((entry, index) => ({
+    ...entry,
+    visual: visuals[index],
+    captionStyle: resolveCaptionStyle(captionStyle, entry.scene)
+  }));
+
+export const findMetaIndexAt = (metas: TimelineEntry[], time: number) => {
+  for (let index = metas.length - 1; index > 0; index--) {
+    if (time >= metas[index].start) return index;
+  }
+  return 0;
+};
+
+/** Scenes on screen at `time` (two during a transition) with their clip times. */
+export const visibleScenesAt = <T extends TimelineEntry>(metas: T[], time: number) => {
+  const index = findMetaIndexAt(metas, time);
+  const visible = [metas[index]];
+  if (metas[index - 1] && time - metas[index].start < metas[index].transitionIn) {
+    visible.push(metas[index - 1]);
+  }
+  return visible.map((meta) => {
+    const elapsed = Math.min(meta.duration, Math.max(0, time - meta.start));
+    return {
+      meta,
+      clipTime: meta.scene.clip ? clipTimeAt(meta.scene.clip, elapsed) : undefined
+    };
+  });
+};
+
+const createDomCanvas: CanvasFactory = (width, height) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const createRenderScratch = (
+  width: number,
+  height: number,
+  createCanvas: CanvasFactory = createDomCanvas
+): RenderScratch => ({
+  outgoing: createCanvas(width, height),
+  incoming: createCanvas(width, height),
+  backdrop: createCanvas(
+    Math.max(1, Math.round(width / BACKDROP_DOWNSCALE)),
+    Math.max(1, Math.round(height / BACKDROP_DOWNSCALE))
+  )
+});
+
+export const containLayout = (
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number
+) => {
+  const sourceRatio = sourceWidth / sourceHeight;
+  let drawWidth = width;
+  let drawHeight = height;
+  if (sourceRatio > width / height) {
+    drawHeight = width / sourceRatio;
+  } else {
+    drawWidth = height * sourceRatio;
+  }
+  return {
+    dx: (width - drawWidth) / 2,
+    dy: (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  };
+};
+
+/** Fills the frame, centering `focus` as far as the image edges allow. */
+export const coverLayout = (
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+  focus: FocalPoint = FRAME_CENTER
+) => {
+  const scale = Math.max(width / sourceWidth, height / sourceHeight);
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  return {
+    dx: Math.min(0, Math.max(width - drawWidth, width / 2 - focus.x * drawWidth)),
+    dy: Math.min(0, Math.max(height - drawHeight, height / 2 - focus.y * drawHeight)),
+    drawWidth,
+    drawHeight
+  };
+};
+
+/** Part of the image (0-1) that stays visible when it covers a `width`x`height` frame. */
+export const coverCrop = (
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+  focus?: FocalPoint
+): CropRect => {
+  const { dx, dy, drawWidth, drawHeight } = coverLayout(
+    sourceWidth,
+    sourceHeight,
+    width,
+    height,
+    focus
+  );
+  return {
+    x: -dx / drawWidth,
+    y: -dy / drawHeight,
+    width: width / drawWidth,
+    height: height / drawHeight
+  };
+};
+
+/** The scene focal point relative to the current motion crop. */
+const focusWithin = (crop: CropRect, point: FocalPoint | undefined): FocalPoint => {
+  if (!point) return FRAME_CENTER;
+  return {
+    x: Math.min(1, Math.max(0, (point.x - crop.x) / crop.width)),
+    y: Math.min(1, Math.max(0, (point.y - crop.y) / crop.height))
+  };
+};
+
+const fitLayout = (
+  fit: SceneFit,
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+  focus: FocalPoint
+) => {
+  switch (fit) {
+    case "cover":
+      return coverLayout(sourceWidth, sourceHeight, width, height, focus);
+    case "fill":
+      return { dx: 0, dy: 0, drawWidth: width, drawHeight: height };
+    default:
+      return containLayout(sourceWidth, sourceHeight, width, height);
+  }
+};
+
+// Canvas filters are missing from node-canvas, so the blur comes from scaling a
+// tiny copy back up instead, which looks the same in both renderers.
+const drawBlurredBackdrop = (
+  ctx: DrawingContext,
+  { width, height }: FrameSize,
+  backdrop: DrawingSurface,
+  visual: DrawableImage,
+  [sx, sy, sw, sh]: [number, number, number, number],
+  focus: FocalPoint
+) => {
+  const backdropCtx = backdrop.getContext("2d");
+  if (!backdropCtx) return;
+  const { dx, dy, drawWidth, drawHeight } = coverLayout(
+    sw,
+    sh,
+    backdrop.width,
+    backdrop.height,
+    focus
+  );
+  backdropCtx.imageSmoothingQuality = "high";
+  backdropCtx.drawImage(visual, sx, sy, sw, sh, dx, dy, drawWidth, drawHeight);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(backdrop, 0, 0, width, height);
+  ctx.fillStyle = "rgba(2, 4, 9, 0.35)";
+  ctx.fillRect(0, 0, width, height);
+};
+
+const drawSceneVisual = (
+  ctx: DrawingContext,
+  { width, height }: FrameSize,
+  scene: Scene,
+  visual: DrawableImage,
+  elapsed: number,
+  total: number,
+  backdrop: DrawingSurface
+) => {
+  const fit = scene.fit ?? "contain";
+  const source = visualSize(visual);
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+  const crop = scene.motion
+    ? rectAtProgress(
+        reframeMotion(scene.motion, source.width / source.height, width / height),
+        total > 0 ? elapsed / total : 1
+      )
+    : { x: 0, y: 0, width: 1, height: 1 };
+  const sx = crop.x * source.width;
+  const sy = crop.y * source.height;
+  const sw = crop.width * source.width;
+  const sh = crop.height * source.height;
+  const focus = focusWithin(crop, scene.focalPoint);
+  if (fit === "blur") {
+    drawBlurredBackdrop(ctx, { width, height }, backdrop, visual, [sx, sy, sw, sh], focus);
+  }
+  const { dx, dy, drawWidth, drawHeight } = fitLayout(fit, sw, sh, width, height, focus);
+  ctx.drawImage(visual, sx, sy, sw, sh, dx, dy, drawWidth, drawHeight);
+};
+
+export const drawSceneFrame = (
+  ctx: DrawingContext,
+  { width, height }: FrameSize,
+  meta: SceneMeta,
+  elapsed: number,
+  total: number,
+  resolveImage: LayerImageResolver,
+  backdrop: DrawingSurface
+) => {
+  const { visual, scene } = meta;
+  ctx.save();
+  if (scene.titleCard) {
+    const { fontFamily } = meta.captionStyle;
+    drawTitleCard(ctx, { width, height }, scene.titleCard, scene.accentColor, fontFamily, visual);
+  } else if (visual) {
+    drawSceneVisual(ctx, { width, height }, scene, visual, elapsed, total, backdrop);
+  } else {
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (scene.layers?.length) {
+    drawLayers(ctx, scene.layers, width, height, elapsed, total, resolveImage);
+  }
+
+  const cue = activeCue(sceneCues(scene, total), elapsed);
+  if (cue && cue.text.trim()) {
+    drawCaption(
+      ctx,
+      width,
+      height,
+      cue.text.trim(),
+      meta.captionStyle,
+      scene.karaoke
+        ? { words: spokenWordCount(cue, elapsed), color: scene.accentColor }
+        : undefined
+    );
+  }
+
+  ctx.restore();
+};
+
+/**
+ * Chrome state at `time`, or null on title cards, which sit outside the story
+ * and show no chrome. Title cards don't count as scenes either.
+ */
+const chromeStateAt = (metas: SceneMeta[], index: number, time: number): ChromeState | null => {
+  const meta = metas[index];
+  if (meta.scene.titleCard) return null;
+  const story = metas.filter((item) => !item.scene.titleCard);
+  const chapter = metas
+    .slice(0, index)
+    .reverse()
+    .find((item) => item.scene.titleCard?.chapter);
+  const last = metas[metas.length - 1];
+  const elapsed = Math.min(meta.duration, Math.max(0, time - meta.start));
+  return {
+    scene: story.indexOf(meta) + 1,
+    sceneCount: story.length,
+    sceneProgress: meta.duration > 0 ? elapsed / meta.duration : 1,
+    time,
+    total: last.start + last.duration,
+    chapter: chapter?.scene.titleCard?.title.trim() || undefined,
+    accentColor: meta.scene.accentColor,
+    fontFamily: meta.captionStyle.fontFamily
+  };
+};
+
+const drawChrome = (
+  ctx: DrawingContext,
+  size: FrameSize,
+  metas: SceneMeta[],
+  index: number,
+  time: number,
+  chrome: OnScreenChrome
+) => {
+  const state = chromeStateAt(metas, index, time);
+  if (state) drawOnScreenChrome(ctx, size, chrome, state);
+};
+
+export const drawWatermark = (
+  ctx: DrawingContext,
+  { width, height }: FrameSize,
+  layer: ImageLayer | undefined,
+  resolveImage: LayerImageResolver
+) => {
+  if (!layer) return;
+  drawLayer(ctx, layer, width, height, layer.opacity, resolveImage);
+};
+
+/**
+ * Draws the timeline at `time`, compositing the outgoing and incoming scenes
+ * during a transition. Clip visuals must already show the frame for `time`.
+ * The chrome goes over the composite, so it doesn't fade with the transition.
+ */
+export const drawTimelineFrame = (
+  ctx: DrawingContext,
+  size: FrameSize,
+  metas: SceneMeta[],
+  time: number,
+  scratch: RenderScratch,
+  overlay: ImageLayer | undefined,
+  resolveImage: LayerImageResolver,
+  chrome: OnScreenChrome
+) => {
+  const index = findMetaIndexAt(metas, time);
+  const meta = metas[index];
+  const previous = metas[index - 1];
+  const elapsed = Math.min(meta.duration, Math.max(0, time - meta.start));
+  const transition = meta.scene.transition;
+  if (previous && transition && elapsed < meta.transitionIn) {
+    const outgoingCtx = scratch.outgoing.getContext("2d");
+    const incomingCtx = scratch.incoming.getContext("2d");
+    if (outgoingCtx && incomingCtx) {
+      drawSceneFrame(
+        outgoingCtx,
+        scratch.outgoing,
+        previous,
+        Math.min(previous.duration, time - previous.start),
+        previous.duration,
+        resolveImage,
+        scratch.backdrop
+      );
+      drawSceneFrame(
+        incomingCtx,
+        scratch.incoming,
+        meta,
+        elapsed,
+        meta.duration,
+        resolveImage,
+        scratch.backdrop
+      );
+      compositeTransition(
+        ctx,
+        size.width,
+        size.height,
+        scratch.outgoing,
+        scratch.incoming,
+        transition,
+        elapsed / meta.transitionIn
+      );
+      drawChrome(ctx, size, metas, index, time, chrome);
+      drawWatermark(ctx, size, overlay, resolveImage);
+      return;
+    }
+  }
+  drawSceneFrame(ctx, size, meta, elapsed, meta.duration, resolveImage, scratch.backdrop);
+  drawChrome(ctx, size, metas, index, time, chrome);
+  drawWatermark(ctx, size, overlay, resolveImage);
+};
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ScriptImportError,
+  findScript,
+  matchScriptAssets,
+  parseCsvScript,
+  parseJsonScript,
+  parseMarkdownStoryboard
+} from "./scriptImport";
+
+const file = (name: string, content = "", type = "") => new File([content], name, { type });
+
+describe("parseCsvScript", () => {
+  it("maps aliased headers and honours quotes and ; separators", () => {
+    const rows = parseCsvScript(
+      '﻿Imagen;Texto;Duración\nuno.png;"Hola; ""mundo""";2,5\n;Solo texto;\n'
+    );
+    assert.deepEqual(rows, [
+      { image: "uno.png", dialogue: 'Hola; "mundo"', duration: 2.5, audio: undefined },
+      { image: undefined, dialogue: "Solo texto", duration: undefined, audio: undefined }
+    ]);
+  });
+
+  it("rejects a CSV without image or dialogue columns", () => {
+    assert.throws(() => parseCsvScript("foo,bar\n1,2"), ScriptImportError);
+  });
+
+  it("rejects unclosed quotes and invalid durations", () => {
+    assert.throws(() => parseCsvScript('image,dialogue\na.png,"sin cerrar'), ScriptImportError);
+    assert.throws(() => parseCsvScript("image,duration\na.png,-1"), /escena 1/);
+  });
+});
+
+describe("parseJsonScript", () => {
+  it("accepts a list or { scenes } with aliased keys", () => {
+    const expected = [{ image: "a.png", dialogue: "Hola", duration: 3, audio: "a.mp3" }];
+    const scenes = [{ imagen: "a.png", texto: "Hola", segundos: 3, voz: "a.mp3" }];
+    assert.deepEqual(parseJsonScript(JSON.stringify(scenes)), expected);
+    assert.deepEqual(parseJsonScript(JSON.stringify({ scenes })), expected);
+  });
+
+  it("rejects invalid JSON and non-list scripts", () => {
+    assert.throws(() => parseJsonScript("{"), ScriptImportError);
+    assert.throws(() => parseJsonScript('{"title": "x"}'), ScriptImportError);
+    assert.throws(() => parseJsonScript("[1]"), /escena 1/);
+  });
+});
+
+describe("parseMarkdownStoryboard", () => {
+  it("reads one scene per heading with its image, audio and duration", () => {
+    const rows = parseMarkdownStoryboard(
+      [
+        "# Escena 1",
+        "![portada](<mi%20foto.png>)",
+        "- Audio: voz1.mp3",
+        "Duración: 4",
+        "Texto: Primera línea",
+        "segunda línea",
+        "## Escena 2",
+        "Voz: narrador cálido"
+      ].join("\n")
+    );
+    assert.deepEqual(rows, [
+      {
+        image: "mi foto.png",
+        audio: "voz1.mp3",
+        duration: 4,
+        dialogue: "Primera línea\nsegunda línea"
+      },
+      { dialogue: "narrador cálido" }
+    ]);
+  });
+
+  it("rejects a storyboard without headings", () => {
+    assert.throws(() => parseMarkdownStoryboard("Solo texto"), ScriptImportError);
+  });
+});
+
+describe("matchScriptAssets", () => {
+  it("pairs rows with files by base name and reports the rest", () => {
+    const image = file("Fotos/Uno.PNG", "", "image/png");
+    const extra = file("dos.png", "", "image/png");
+    const { rows, missing, unused } = matchScriptAssets(
+      [{ image: "carpeta/uno.png", audio: "voz.mp3", dialogue: "" }],
+      [image, extra]
+    );
+    assert.equal(rows[0].imageFile, image);
+    assert.deepEqual(missing, [{ scene: 1, kind: "audio", name: "voz.mp3" }]);
+    assert.deepEqual(unused, ["dos.png"]);
+  });
+});
+
+describe("findScript", () => {
+  const media = [file("a.png", "", "image/png"), file("b.png", "", "image/png")];
+
+  it("picks the script naming the imported media over other script-like files", async () => {
+    const script = file("guion.csv", "image,dialogue\na.png,Hola\nb.png,Adiós");
+    const readme = file("README.md", "Notas del proyecto sin escenas.");
+    const data = file("datos.json", JSON.stringify([{ dialogue: "x" }]));
+    const found = await findScript([readme, data, script, ...media]);
+    assert.equal(found?.file, script);
+    assert.equal(found?.rows.length, 2);
+  });
+
+  it("imports the media on its own when no script names it", async () => {
+    const unrelated = file("datos.json", JSON.stringify([{ dialogue: "x" }]));
+    assert.equal(await findScript([unrelated, ...media]), null);
+  });
+
+  it("asks for a single script when two name as many files", async () => {
+    const first = file("uno.csv", "image,dialogue\na.png,Hola");
+    const second = file("dos.json", JSON.stringify([{ image: "b.png" }]));
+    await assert.rejects(findScript([first, second, ...media]), /varios guiones/);
+  });
+
+  it("reports the parse error when only a broken script was imported", async () => {
+    await assert.rejects(findScript([file("guion.json", "{")]), ScriptImportError);
+  });
+});
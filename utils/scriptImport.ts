@@ -0,0 +1,301 @@
+export class ScriptImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScriptImportError";
+  }
+}
+
+/** One scene described by an imported script, before its assets are resolved. */
+export type ScriptRow = {
+  image?: string;
+  dialogue: string;
+  duration?: number;
+  audio?: string;
+};
+
+export type ImportedRow = ScriptRow & {
+  imageFile?: File;
+  audioFile?: File;
+};
+
+export type MissingAsset = {
+  scene: number;
+  kind: "image" | "audio";
+  name: string;
+};
+
+export type ImportReport = {
+  source: string;
+  created: number;
+  missing: MissingAsset[];
+  unused: string[];
+};
+
+const SCRIPT_EXTENSIONS = ["csv", "json", "md", "markdown"];
+const AUDIO_EXTENSIONS = ["mp3", "wav", "ogg", "oga", "m4a", "aac", "flac", "opus", "webm"];
+
+const columnAliases: Record<keyof ScriptRow, string[]> = {
+  image: ["image", "imagen", "image filename", "archivo", "file"],
+  dialogue: ["dialogue", "dialogo", "diálogo", "texto", "text"],
+  duration: ["duration", "duracion", "duración", "segundos", "seconds"],
+  audio: ["audio", "audio filename", "voz", "voice"]
+};
+
+const extensionOf = (name: string) => name.split(".").pop()?.toLowerCase() ?? "";
+
+export const isScriptFile = (file: File) => SCRIPT_EXTENSIONS.includes(extensionOf(file.name));
+
+export const isMediaFile = (file: File) =>
+  file.type.startsWith("image/") || file.type.startsWith("video/");
+
+const filePath = (file: File) => file.webkitRelativePath || file.name;
+
+const baseName = (path: string) => path.split(/[\\/]/).pop()?.trim().toLowerCase() ?? "";
+
+/** Natural filename order, so "escena-2" sorts before "escena-10". */
+export const compareFileNames = (a: File, b: File) =>
+  filePath(a).localeCompare(filePath(b), undefined, { numeric: true, sensitivity: "base" });
+
+const parseDuration = (value: unknown, line: number) => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const duration = Number(String(value).replace(",", "."));
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new ScriptImportError(`La duración de la escena ${line} no es válida.`);
+  }
+  return duration;
+};
+
+const decodePath = (path: string) => {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+};
+
+const optionalText = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value).trim();
+  return text || undefined;
+};
+
+/** Splits CSV text into rows, honouring quoted fields, escaped quotes and `;` separators. */
+const parseCsvRecords = (text: string) => {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  const separator = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new ScriptImportError("El CSV tiene comillas sin cerrar.");
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((row) => row.some((cell) => cell.trim()));
+};
+
+const columnFor = (header: string) =>
+  (Object.keys(columnAliases) as (keyof ScriptRow)[]).find((key) =>
+    columnAliases[key].includes(header.trim().toLowerCase())
+  );
+
+export const parseCsvScript = (text: string): ScriptRow[] => {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    throw new ScriptImportError("El CSV está vacío.");
+  }
+  const columns = header.map(columnFor);
+  if (!columns.includes("image") && !columns.includes("dialogue")) {
+    throw new ScriptImportError(
+      'El CSV necesita una columna "image" o "dialogue" en la primera fila.'
+    );
+  }
+  return records.map((cells, index) => {
+    const value = (key: keyof ScriptRow) => cells[columns.indexOf(key)];
+    return {
+      image: optionalText(value("image")),
+      dialogue: value("dialogue")?.trim() ?? "",
+      duration: parseDuration(value("duration"), index + 1),
+      audio: optionalText(value("audio"))
+    };
+  });
+};
+
+export const parseJsonScript = (text: string): ScriptRow[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ScriptImportError("El guion JSON no es válido.");
+  }
+  const items =
+    typeof data === "object" && data !== null && "scenes" in data
+      ? (data as { scenes: unknown }).scenes
+      : data;
+  if (!Array.isArray(items)) {
+    throw new ScriptImportError(
+      'El guion JSON debe ser una lista de escenas o { "scenes": [...] }.'
+    );
+  }
+  return items.map((item, index) => {
+    if (typeof item !== "object" || item === null) {
+      throw new ScriptImportError(`La escena ${index + 1} del guion JSON no es válida.`);
+    }
+    const record = Object.fromEntries(
+      Object.entries(item).map(([key, value]) => [columnFor(key) ?? key, value])
+    );
+    return {
+      image: optionalText(record.image),
+      dialogue: optionalText(record.dialogue) ?? "",
+      duration: parseDuration(record.duration, index + 1),
+      audio: optionalText(record.audio)
+    };
+  });
+};
+
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\(\s*<?([^)>]+?)>?\s*\)/;
+const MARKDOWN_FIELD = /^\s*[-*]?\s*(\p{L}+)\s*:\s*(.+)$/u;
+
+/**
+ * One `#` heading per scene. Inside a scene, `![](file)` sets the image,
+ * `Audio: file.mp3` and `Duración: 5` lines set the audio and length, and the
+ * remaining text becomes the dialogue, without a leading `Texto:` label. A
+ * `Voz:` line that names no audio file is dialogue as well.
+ */
+export const parseMarkdownStoryboard = (text: string): ScriptRow[] => {
+  const rows: ScriptRow[] = [];
+  let current: (ScriptRow & { lines: string[] }) | null = null;
+  const flush = () => {
+    if (!current) return;
+    const { lines, ...row } = current;
+    rows.push({ ...row, dialogue: lines.join("\n").trim() });
+  };
+  for (const line of text.split(/\r?\n/)) {
+    if (/^#{1,6}\s/.test(line)) {
+      flush();
+      current = { dialogue: "", lines: [] };
+      continue;
+    }
+    if (!current) continue;
+    const image = line.match(MARKDOWN_IMAGE);
+    if (image) {
+      current.image = decodePath(image[1].trim());
+      continue;
+    }
+    const field = line.match(MARKDOWN_FIELD);
+    const key = field && columnFor(field[1]);
+    const value = field?.[2].trim() ?? "";
+    if (key === "duration") {
+      current.duration = parseDuration(value, rows.length + 1);
+    } else if (key === "image") {
+      current.image = value;
+    } else if (key === "audio" && AUDIO_EXTENSIONS.includes(extensionOf(value))) {
+      current.audio = value;
+    } else {
+      current.lines.push(key ? value : line);
+    }
+  }
+  flush();
+  if (rows.length === 0) {
+    throw new ScriptImportError("El storyboard no tiene encabezados de escena (# Escena).");
+  }
+  return rows;
+};
+
+export const parseScript = async (file: File) => {
+  const text = await file.text();
+  switch (extensionOf(file.name)) {
+    case "csv":
+      return parseCsvScript(text);
+    case "json":
+      return parseJsonScript(text);
+    default:
+      return parseMarkdownStoryboard(text);
+  }
+};
+
+/**
+ * Picks the script among imported files: of the script-like files that parse,
+ * the one naming the most of the other files. A README or unrelated JSON in an
+ * imported folder parses to nothing or names no media, so the media is imported
+ * on its own instead. Asks for a single script when two name as many files.
+ */
+export const findScript = async (files: File[]) => {
+  const media = files.filter(isMediaFile);
+  const candidates: { file: File; rows: ScriptRow[]; matched: number }[] = [];
+  let parseError: unknown = null;
+  for (const file of files.filter(isScriptFile)) {
+    try {
+      const rows = await parseScript(file);
+      const { missing } = matchScriptAssets(rows, files.filter((other) => other !== file));
+      const named = rows.flatMap((row) => [row.image, row.audio]).filter(Boolean).length;
+      candidates.push({ file, rows, matched: named - missing.length });
+    } catch (error) {
+      parseError = parseError ?? error;
+    }
+  }
+  const best = Math.max(0, ...candidates.map(({ matched }) => matched));
+  const picked = candidates.filter(({ matched }) => matched === best);
+  // A script naming none of the media only wins when there is no media to import.
+  if (picked.length === 0 || (best === 0 && media.length > 0)) {
+    if (parseError && media.length === 0) throw parseError;
+    return null;
+  }
+  if (picked.length > 1) {
+    const names = picked.map(({ file }) => file.name).join(", ");
+    throw new ScriptImportError(`Hay varios guiones posibles (${names}); importa solo uno.`);
+  }
+  return picked[0];
+};
+
+/** Pairs script rows with uploaded files by file name, ignoring folders and case. */
+export const matchScriptAssets = (rows: ScriptRow[], files: File[]) => {
+  const byName = new Map(files.map((file) => [baseName(filePath(file)), file]));
+  const used = new Set<File>();
+  const missing: MissingAsset[] = [];
+  const resolve = (name: string | undefined, kind: MissingAsset["kind"], scene: number) => {
+    if (!name) return undefined;
+    const file = byName.get(baseName(name));
+    if (file) {
+      used.add(file);
+    } else {
+      missing.push({ scene, kind, name });
+    }
+    return file;
+  };
+  const matched: ImportedRow[] = rows.map((row, index) => ({
+    ...row,
+    imageFile: resolve(row.image, "image", index + 1),
+    audioFile: resolve(row.audio, "audio", index + 1)
+  }));
+  const unused = files.filter((file) => !used.has(file)).map((file) => file.name);
+  return { rows: matched, missing, unused };
+};
@@ -0,0 +1,101 @@
+import { createId } from "./ids";
+import type { TimelineEntry } from "./timeline";
+import type { Scene, SubtitleCue } from "./types";
+
+const MAX_WORDS_PER_CUE = 12;
+
+const splitWords = (text: string) => text.trim().split(/\s+/).filter(Boolean);
+
+const splitPhrases = (dialogue: string) => {
+  const sentences = dialogue
+    .split(/\n+|(?<=[.!?¡¿…;:])\s+/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  return sentences.flatMap((sentence) => {
+    const words = splitWords(sentence);
+    const chunks: string[] = [];
+    for (let index = 0; index < words.length; index += MAX_WORDS_PER_CUE) {
+      chunks.push(words.slice(index, index + MAX_WORDS_PER_CUE).join(" "));
+    }
+    return chunks;
+  });
+};
+
+/** Spreads the dialogue over `length` seconds, weighting each cue by its word count. */
+export const spreadCues = (dialogue: string, length: number): SubtitleCue[] => {
+  const phrases = splitPhrases(dialogue);
+  const totalWords = phrases.reduce((sum, phrase) => sum + splitWords(phrase).length, 0);
+  if (totalWords === 0 || length <= 0) return [];
+  let cursor = 0;
+  return phrases.map((text) => {
+    const share = (splitWords(text).length / totalWords) * length;
+    const cue = { id: createId(), start: cursor, end: cursor + share, text };
+    cursor += share;
+    return cue;
+  });
+};
+
+export const sceneCues = (scene: Scene, duration: number): SubtitleCue[] => {
+  if (scene.cues) return scene.cues;
+  const text = scene.dialogue.trim();
+  return text ? [{ id: scene.id, start: 0, end: duration, text }] : [];
+};
+
+export const activeCue = (cues: SubtitleCue[], elapsed: number) =>
+  cues.find((cue) => elapsed >= cue.start && elapsed < cue.end) ?? null;
+
+/** Number of words already spoken, timing each word by its character length. */
+export const spokenWordCount = (cue: SubtitleCue, elapsed: number) => {
+  const words = splitWords(cue.text);
+  const span = cue.end - cue.start;
+  if (span <= 0) return words.length;
+  const progress = Math.min(1, Math.max(0, (elapsed - cue.start) / span));
+  const totalChars = words.reduce((sum, word) => sum + word.length, 0);
+  let consumed = 0;
+  for (let index = 0; index < words.length; index++) {
+    consumed += words[index].length;
+    if (consumed / totalChars > progress) return index + 1;
+  }
+  return words.length;
+};
+
+export const buildSubtitleTrack = (entries: TimelineEntry[]): SubtitleCue[] =>
+  entries.flatMap((entry) => {
+    const visibleEnd = entry.start + entry.duration - entry.transitionOut;
+    return sceneCues(entry.scene, entry.duration)
+      .map((cue) => ({
+        ...cue,
+        start: entry.start + cue.start,
+        end: Math.min(entry.start + cue.end, visibleEnd)
+      }))
+      .filter((cue) => cue.end > cue.start && cue.text.trim());
+  });
+
+const formatTimestamp = (seconds: number, separator: "," | ".") => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, size = 2) => value.toString().padStart(size, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+export const toSrt = (cues: SubtitleCue[]) =>
+  cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(
+          cue.end,
+          ","
+        )}\n${cue.text.trim()}\n`
+    )
+    .join("\n");
+
+export const toVtt = (cues: SubtitleCue[]) =>
+  `WEBVTT\n\n${cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text.trim()}\n`
+    )
+    .join("\n")}`;
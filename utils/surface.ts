@@ -0,0 +1,84 @@
+/**
+ * The slice of the 2D canvas API the shared renderer draws with. DOM canvases,
+ * OffscreenCanvas (export worker) and node-canvas (CLI) all provide it, so each
+ * caller hands over its own canvases and images as they are.
+ */
+
+/** A decoded image outside the DOM, i.e. node-canvas's `Image` in the CLI. */
+export type LoadedImage = {
+  readonly complete: boolean;
+  readonly width: number;
+  readonly height: number;
+  readonly naturalWidth: number;
+  readonly naturalHeight: number;
+};
+
+/**
+ * Anything the caller's `drawImage` accepts: DOM images, videos and bitmaps in
+ * the browser, node-canvas images in the CLI, or another surface of the same kind.
+ */
+export type DrawableImage = CanvasImageSource | DrawingSurface | LoadedImage;
+
+export type DrawingGradient = {
+  addColorStop(offset: number, color: string): void;
+};
+
+export type DrawingContext = {
+  fillStyle: string | DrawingGradient | CanvasPattern;
+  strokeStyle: string | DrawingGradient | CanvasPattern;
+  globalAlpha: number;
+  lineWidth: number;
+  lineJoin: CanvasLineJoin;
+  shadowColor: string;
+  shadowBlur: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  /** node-canvas has no such setting and keeps its own default. */
+  imageSmoothingQuality?: ImageSmoothingQuality;
+  save(): void;
+  restore(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  beginPath(): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  roundRect(x: number, y: number, width: number, height: number, radii?: number): void;
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number
+  ): void;
+  clip(): void;
+  fill(): void;
+  setLineDash(segments: number[]): void;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  strokeRect(x: number, y: number, width: number, height: number): void;
+  fillText(text: string, x: number, y: number, maxWidth?: number): void;
+  strokeText(text: string, x: number, y: number, maxWidth?: number): void;
+  measureText(text: string): { width: number };
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): DrawingGradient;
+  drawImage(image: DrawableImage, dx: number, dy: number): void;
+  drawImage(image: DrawableImage, dx: number, dy: number, dw: number, dh: number): void;
+  drawImage(
+    image: DrawableImage,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number
+  ): void;
+};
+
+/** A canvas the renderer can draw on and then draw from, e.g. its scratch buffers. */
+export type DrawingSurface = {
+  width: number;
+  height: number;
+  getContext(contextId: "2d"): DrawingContext | null;
+};
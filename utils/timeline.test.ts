@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DURATION_MIN, buildTimeline } from "./timeline";
+import type { Scene } from "./types";
+
+const scene = (id: string, duration: number, transition?: number): Scene => ({
+  id,
+  dialogue: "",
+  duration,
+  accentColor: "#000000",
+  transition:
+    transition === undefined ? undefined : { type: "crossfade", duration: transition, color: "" }
+});
+
+describe("buildTimeline", () => {
+  it("places scenes back to back without transitions", () => {
+    const { entries, total } = buildTimeline([scene("a", 2), scene("b", 3)]);
+    assert.deepEqual(
+      entries.map(({ start, duration }) => [start, duration]),
+      [
+        [0, 2],
+        [2, 3]
+      ]
+    );
+    assert.equal(total, 5);
+  });
+
+  it("overlaps a transition with the tail of the previous scene", () => {
+    const { entries, total } = buildTimeline([scene("a", 4), scene("b", 4, 1)]);
+    assert.equal(entries[1].start, 3);
+    assert.equal(entries[0].transitionOut, 1);
+    assert.equal(entries[1].transitionIn, 1);
+    assert.equal(total, 7);
+  });
+
+  it("caps a transition at half of either scene and ignores it on the first", () => {
+    const { entries } = buildTimeline([scene("a", 2, 1), scene("b", 6, 3)]);
+    assert.equal(entries[0].transitionIn, 0);
+    assert.equal(entries[1].transitionIn, 1);
+  });
+
+  it("stretches a scene to its trimmed narration and the minimum length", () => {
+    const narrated: Scene = {
+      ...scene("a", 2),
+      audioDuration: 10,
+      audioEdit: { trimStart: 1, trimEnd: 6, fadeIn: 0, fadeOut: 0, gainDb: 0 }
+    };
+    const { entries } = buildTimeline([narrated, scene("b", 0)]);
+    assert.equal(entries[0].duration, 5);
+    assert.equal(entries[1].duration, DURATION_MIN);
+  });
+});
@@ -0,0 +1,46 @@
+import { sceneAudioLength } from "./audioEdit";
+import type { Scene } from "./types";
+
+export const DURATION_MIN = 1;
+export const DURATION_MAX = 30;
+
+export type TimelineEntry = {
+  scene: Scene;
+  start: number;
+  duration: number;
+  transitionIn: number;
+  transitionOut: number;
+};
+
+export type Timeline = {
+  entries: TimelineEntry[];
+  total: number;
+};
+
+export const sceneTimelineDuration = (scene: Scene) =>
+  Math.max(scene.duration, sceneAudioLength(scene), DURATION_MIN);
+
+/**
+ * Lays scenes out on the timeline. A scene's transition overlaps the tail of
+ * the previous scene, so it is capped at half of either scene's length.
+ */
+export const buildTimeline = (scenes: Scene[]): Timeline => {
+  const entries: TimelineEntry[] = [];
+  let cursor = 0;
+  scenes.forEach((scene, index) => {
+    const duration = sceneTimelineDuration(scene);
+    const previous = entries[index - 1];
+    const transition = scene.transition;
+    const transitionIn =
+      previous && transition && transition.type !== "none"
+        ? Math.min(transition.duration, previous.duration / 2, duration / 2)
+        : 0;
+    if (previous) {
+      previous.transitionOut = transitionIn;
+    }
+    const start = Math.max(0, cursor - transitionIn);
+    entries.push({ scene, start, duration, transitionIn, transitionOut: 0 });
+    cursor = start + duration;
+  });
+  return { entries, total: cursor };
+};
@@ -0,0 +1,154 @@
+import { layoutLines } from "./captions";
+import { visualSize } from "./clips";
+import { createId } from "./ids";
+import type { DrawableImage, DrawingContext } from "./surface";
+import type { ProjectSnapshot, Scene, TitleCard, TitleCardBackground } from "./types";
+
+const CARD_SHADE = "#020409";
+const CARD_TEXT = "#f8fafc";
+const TEXT_WIDTH = 0.8;
+// Sizes relative to the frame's shorter side, so vertical and wide cards match.
+const LOGO_HEIGHT = 0.18;
+const TITLE_SIZE = 0.075;
+const SUBTITLE_SIZE = 0.038;
+const BLOCK_GAP = 0.04;
+
+export type TitleCardTemplate = {
+  id: string;
+  label: string;
+  duration: number;
+  accentColor: string;
+  card: TitleCard;
+};
+
+export const titleCardTemplates: TitleCardTemplate[] = [
+  {
+    id: "title",
+    label: "Título",
+    duration: 4,
+    accentColor: "#2563eb",
+    card: { background: "gradient", title: "Título del video", subtitle: "Subtítulo" }
+  },
+  {
+    id: "chapter",
+    label: "Capítulo",
+    duration: 3,
+    accentColor: "#0f766e",
+    card: { background: "solid", title: "Capítulo 1", subtitle: "", chapter: true }
+  },
+  {
+    id: "intro",
+    label: "Intro de marca",
+    duration: 3,
+    accentColor: "#7c3aed",
+    card: { background: "gradient", title: "Tu marca", subtitle: "" }
+  },
+  {
+    id: "outro",
+    label: "Cierre",
+    duration: 4,
+    accentColor: "#7c3aed",
+    card: { background: "gradient", title: "Gracias por ver", subtitle: "Suscríbete para más" }
+  }
+];
+
+export const titleCardBackgroundOptions: { value: TitleCardBackground; label: string }[] = [
+  { value: "gradient", label: "Degradado" },
+  { value: "solid", label: "Color sólido" }
+];
+
+export const findTitleCardTemplate = (id: string) =>
+  titleCardTemplates.find((template) => template.id === id);
+
+export const createTitleCardScene = (template: TitleCardTemplate): Scene => ({
+  id: createId(),
+  dialogue: "",
+  duration: template.duration,
+  accentColor: template.accentColor,
+  titleCard: { ...template.card }
+});
+
+/** The scenes in render order, with the project's intro and outro around them. */
+export const withIntroOutro = (
+  scenes: Scene[],
+  { intro, outro }: Pick<ProjectSnapshot, "intro" | "outro">
+) => [...(intro ? [intro] : []), ...scenes, ...(outro ? [outro] : [])];
+
+const cardFont = (weight: number, size: number, fontFamily: string) =>
+  `${weight} ${size}px "${fontFamily}", sans-serif`;
+
+/**
+ * Fills the frame with the card: its background from `accentColor`, then the
+ * logo, title and subtitle stacked and centered as one block.
+ */
+export const drawTitleCard = (
+  ctx: DrawingContext,
+  { width, height }: { width: number; height: number },
+  card: TitleCard,
+  accentColor: string,
+  fontFamily: string,
+  logo?: DrawableImage
+) => {
+  ctx.save();
+  if (card.background === "gradient") {
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, accentColor);
+    gradient.addColorStop(1, CARD_SHADE);
+    ctx.fillStyle = gradient;
+  } else {
+    ctx.fillStyle = accentColor;
+  }
+  ctx.fillRect(0, 0, width, height);
+
+  const base = Math.min(width, height);
+  const maxWidth = width * TEXT_WIDTH;
+  const titleSize = base * TITLE_SIZE;
+  const subtitleSize = base * SUBTITLE_SIZE;
+  const wrap = (text: string, font: string) => {
+    ctx.font = font;
+    return text.trim() ? layoutLines(ctx, text.trim(), maxWidth).map((line) => line.join(" ")) : [];
+  };
+  const titleFont = cardFont(800, titleSize, fontFamily);
+  const subtitleFont = cardFont(500, subtitleSize, fontFamily);
+  const titleLines = wrap(card.title, titleFont);
+  const subtitleLines = wrap(card.subtitle, subtitleFont);
+
+  let logoWidth = 0;
+  let logoHeight = 0;
+  if (logo) {
+    const source = visualSize(logo);
+    const scale = Math.min((base * LOGO_HEIGHT) / source.height, maxWidth / source.width);
+    logoWidth = source.width * scale;
+    logoHeight = source.height * scale;
+  }
+
+  const titleLineHeight = titleSize * 1.15;
+  const subtitleLineHeight = subtitleSize * 1.3;
+  const blocks = [
+    logoHeight,
+    titleLines.length * titleLineHeight,
+    subtitleLines.length * subtitleLineHeight
+  ].filter((blockHeight) => blockHeight > 0);
+  const gap = base * BLOCK_GAP;
+  let y =
+    (height - blocks.reduce((sum, blockHeight) => sum + blockHeight, 0)) / 2 -
+    (gap * Math.max(0, blocks.length - 1)) / 2;
+
+  if (logo && logoHeight > 0) {
+    ctx.drawImage(logo, (width - logoWidth) / 2, y, logoWidth, logoHeight);
+    y += logoHeight + gap;
+  }
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = CARD_TEXT;
+  ctx.shadowColor = "rgba(0, 0, 0, 0.35)";
+  ctx.shadowBlur = base * 0.01;
+  const drawLines = (lines: string[], font: string, lineHeight: number) => {
+    ctx.font = font;
+    lines.forEach((line, index) => ctx.fillText(line, width / 2, y + lineHeight * (index + 0.5)));
+    y += lines.length * lineHeight + gap;
+  };
+  drawLines(titleLines, titleFont, titleLineHeight);
+  drawLines(subtitleLines, subtitleFont, subtitleLineHeight);
+  ctx.restore();
+};
@@ -0,0 +1,93 @@
+import { motionEasings } from "./motion";
+import type { DrawableImage, DrawingContext } from "./surface";
+import type { SceneTransition, TransitionType } from "./types";
+
+export const TRANSITION_DURATION_MIN = 0.2;
+export const TRANSITION_DURATION_MAX = 3;
+
+export const transitionOptions: { value: TransitionType; label: string }[] = [
+  { value: "none", label: "Corte directo" },
+  { value: "crossfade", label: "Fundido cruzado" },
+  { value: "slideLeft", label: "Deslizar a la izquierda" },
+  { value: "slideRight", label: "Deslizar a la derecha" },
+  { value: "wipe", label: "Cortinilla" },
+  { value: "zoom", label: "Zoom" },
+  { value: "dipToColor", label: "Fundido a color" }
+];
+
+export const createTransition = (type: TransitionType): SceneTransition => ({
+  type,
+  duration: 0.8,
+  color: "#000000"
+});
+
+export const compositeTransition = (
+  ctx: DrawingContext,
+  width: number,
+  height: number,
+  outgoing: DrawableImage,
+  incoming: DrawableImage,
+  transition: SceneTransition,
+  progress: number
+) => {
+  const p = Math.min(1, Math.max(0, progress));
+  const eased = motionEasings.easeInOut(p);
+  ctx.save();
+  switch (transition.type) {
+    case "slideLeft":
+    case "slideRight": {
+      const direction = transition.type === "slideLeft" ? -1 : 1;
+      ctx.drawImage(outgoing, direction * eased * width, 0, width, height);
+      ctx.drawImage(incoming, direction * (eased - 1) * width, 0, width, height);
+      break;
+    }
+    case "wipe": {
+      ctx.drawImage(outgoing, 0, 0, width, height);
+      ctx.beginPath();
+      ctx.rect(0, 0, eased * width, height);
+      ctx.clip();
+      ctx.drawImage(incoming, 0, 0, width, height);
+      break;
+    }
+    case "zoom": {
+      const scale = 1.25 - 0.25 * eased;
+      ctx.drawImage(outgoing, 0, 0, width, height);
+      ctx.globalAlpha = p;
+      ctx.drawImage(
+        incoming,
+        (width - width * scale) / 2,
+        (height - height * scale) / 2,
+        width * scale,
+        height * scale
+      );
+      break;
+    }
+    case "dipToColor": {
+      const firstHalf = p < 0.5;
+      ctx.drawImage(firstHalf ? outgoing : incoming, 0, 0, width, height);
+      ctx.globalAlpha = firstHalf ? p * 2 : (1 - p) * 2;
+      ctx.fillStyle = transition.color;
+      ctx.fillRect(0, 0, width, height);
+      break;
+    }
+    case "crossfade":
+    default: {
+      ctx.drawImage(outgoing, 0, 0, width, height);
+      ctx.globalAlpha = p;
+      ctx.drawImage(incoming, 0, 0, width, height);
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+/** Equal-power gain curve so overlapping narration keeps a steady loudness. */
+export const crossfadeCurve = (direction: "in" | "out", steps = 64) => {
+  const curve = new Float32Array(steps);
+  for (let index = 0; index < steps; index++) {
+    const t = index / (steps - 1);
+    curve[index] =
+      direction === "in" ? Math.sin((t * Math.PI) / 2) : Math.cos((t * Math.PI) / 2);
+  }
+  return curve;
+};
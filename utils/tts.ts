@@ -0,0 +1,148 @@
+import type { Scene, SceneNarration } from "./types";
+
+export type TtsVoice = {
+  id: string;
+  label: string;
+};
+
+export type TtsRequest = {
+  text: string;
+  voice: string;
+  rate: number;
+  pitch: number;
+};
+
+/** A speech engine. `synthesize` resolves to an encoded audio file (e.g. WAV). */
+export type TtsProvider = {
+  id: string;
+  label: string;
+  voices: TtsVoice[];
+  synthesize: (request: TtsRequest) => Promise<{ data: ArrayBuffer; type: string }>;
+};
+
+export class TtsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TtsError";
+  }
+}
+
+export const TTS_RATE_MIN = 0.5;
+export const TTS_RATE_MAX = 2;
+export const TTS_PITCH_MIN = 0;
+export const TTS_PITCH_MAX = 2;
+
+const MESPEAK_BASE_SPEED = 175;
+const MESPEAK_BASE_PITCH = 50;
+
+const mespeakVoiceLoaders: Record<string, () => Promise<{ default: object }>> = {
+  es: () => import("mespeak/voices/es.json"),
+  "es-la": () => import("mespeak/voices/es-la.json"),
+  "en/en-us": () => import("mespeak/voices/en/en-us.json"),
+  "en/en": () => import("mespeak/voices/en/en.json"),
+  pt: () => import("mespeak/voices/pt.json"),
+  fr: () => import("mespeak/voices/fr.json"),
+  it: () => import("mespeak/voices/it.json"),
+  de: () => import("mespeak/voices/de.json")
+};
+
+// The engine and its voice data are large, so they load on first use.
+const loadMespeak = async (voice: string) => {
+  const { default: meSpeak } = await import("mespeak");
+  if (!meSpeak.isConfigLoaded()) {
+    meSpeak.loadConfig((await import("mespeak/src/mespeak_config.json")).default);
+  }
+  if (!meSpeak.isVoiceLoaded(voice)) {
+    const loader = mespeakVoiceLoaders[voice];
+    if (!loader) {
+      throw new TtsError(`La voz "${voice}" no está disponible.`);
+    }
+    meSpeak.loadVoice((await loader()).default);
+  }
+  return meSpeak;
+};
+
+/** Offline eSpeak compiled to JavaScript; runs entirely in the browser. */
+const mespeakProvider: TtsProvider = {
+  id: "mespeak",
+  label: "meSpeak (sin conexión)",
+  voices: [
+    { id: "es", label: "Español (España)" },
+    { id: "es-la", label: "Español (Latinoamérica)" },
+    { id: "en/en-us", label: "Inglés (EE. UU.)" },
+    { id: "en/en", label: "Inglés (Reino Unido)" },
+    { id: "pt", label: "Portugués" },
+    { id: "fr", label: "Francés" },
+    { id: "it", label: "Italiano" },
+    { id: "de", label: "Alemán" }
+  ],
+  synthesize: async ({ text, voice, rate, pitch }) => {
+    const meSpeak = await loadMespeak(voice);
+    const data = meSpeak.speak(text, {
+      voice,
+      speed: Math.round(MESPEAK_BASE_SPEED * rate),
+      pitch: Math.round(Math.min(99, MESPEAK_BASE_PITCH * pitch)),
+      rawdata: "arraybuffer"
+    });
+    if (!data) {
+      throw new TtsError("El motor de voz no pudo sintetizar el texto.");
+    }
+    return { data, type: "audio/wav" };
+  }
+};
+
+const ttsProviders = new Map<string, TtsProvider>([[mespeakProvider.id, mespeakProvider]]);
+
+export const DEFAULT_TTS_PROVIDER = mespeakProvider.id;
+
+export const registerTtsProvider = (provider: TtsProvider) => {
+  ttsProviders.set(provider.id, provider);
+};
+
+export const listTtsProviders = () => Array.from(ttsProviders.values());
+
+export const getTtsProvider = (id: string) => {
+  const provider = ttsProviders.get(id);
+  if (!provider) {
+    throw new TtsError(`El proveedor de voz "${id}" no está registrado.`);
+  }
+  return provider;
+};
+
+export const createNarration = (): SceneNarration => ({
+  provider: DEFAULT_TTS_PROVIDER,
+  voice: mespeakProvider.voices[0].id,
+  rate: 1,
+  pitch: 1
+});
+
+/** Identifies what a narration would be synthesized from. */
+export const narrationKey = (scene: Scene, narration: SceneNarration) =>
+  JSON.stringify([
+    narration.provider,
+    narration.voice,
+    narration.rate,
+    narration.pitch,
+    scene.dialogue.trim()
+  ]);
+
+/** True when the scene's audio came from TTS and no longer matches its text or settings. */
+export const isNarrationStale = (scene: Scene) =>
+  Boolean(
+    scene.narration?.generatedKey &&
+      scene.dialogue.trim() &&
+      scene.narration.generatedKey !== narrationKey(scene, scene.narration)
+  );
+
+export const synthesizeNarration = (scene: Scene, narration: SceneNarration) => {
+  const text = scene.dialogue.trim();
+  if (!text) {
+    throw new TtsError("Escribe el diálogo de la escena antes de generar la voz.");
+  }
+  return getTtsProvider(narration.provider).synthesize({
+    text,
+    voice: narration.voice,
+    rate: narration.rate,
+    pitch: narration.pitch
+  });
+};
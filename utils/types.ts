@@ -0,0 +1,282 @@
+import type { EncodeStage, ExportFormat } from "./encoder";
+
+export type Scene = {
+  id: string;
+  dialogue: string;
+  duration: number;
+  /** Image in the asset store (see utils/assets). */
+  imageAssetId?: string;
+  imageName?: string;
+  clip?: SceneClip;
+  audioName?: string;
+  /** Voice-over in the asset store. */
+  audioAssetId?: string;
+  audioDuration?: number;
+  audioEdit?: AudioEdit;
+  narration?: SceneNarration;
+  accentColor: string;
+  motion?: SceneMotion;
+  transition?: SceneTransition;
+  cues?: SubtitleCue[];
+  karaoke?: boolean;
+  captionStyle?: Partial<CaptionStyle>;
+  layers?: SceneLayer[];
+  /** How the image or clip fills the frame; contain (letterboxed) when unset. */
+  fit?: SceneFit;
+  /** Point of the image (0-1) kept in frame when cropping to fill other aspects. */
+  focalPoint?: FocalPoint;
+  /** Draws the scene as a title card; its image, if any, becomes the card's logo. */
+  titleCard?: TitleCard;
+};
+
+export type TitleCardBackground = "solid" | "gradient";
+
+export type TitleCard = {
+  background: TitleCardBackground;
+  title: string;
+  subtitle: string;
+  /** Opens a chapter: the on-screen chapter title shows this card's title until the next one. */
+  chapter?: boolean;
+};
+
+export type ProgressMode = "off" | "scene" | "video";
+
+export type ProgressStyle = "bar" | "line" | "segments";
+
+export type ChromePosition = "top" | "bottom";
+
+/** Project-wide overlays drawn over every scene frame; title cards stay clean. */
+export type OnScreenChrome = {
+  progress: ProgressMode;
+  progressStyle: ProgressStyle;
+  position: ChromePosition;
+  sceneCounter: boolean;
+  chapterTitle: boolean;
+  timestamp: boolean;
+};
+
+export type SceneFit = "contain" | "cover" | "fill" | "blur";
+
+export type FocalPoint = {
+  x: number;
+  y: number;
+};
+
+export type CanvasPreset = {
+  label: string;
+  width: number;
+  height: number;
+};
+
+export type ExportJob = {
+  id: string;
+  preset: CanvasPreset;
+  format: ExportFormat;
+  status: "pending" | "rendering" | "done" | "error";
+  /** Share of the frames already encoded, 0-1. */
+  progress: number;
+  url?: string;
+  error?: string;
+};
+
+export type RenderProgress = {
+  stage: EncodeStage;
+  /** 1-based scene on screen at the frame being rendered. */
+  scene: number;
+  sceneCount: number;
+  frame: number;
+  totalFrames: number;
+  /** Seconds left for the frames; unknown until a few have been timed. */
+  eta?: number;
+};
+
+export type StageTiming = {
+  label: string;
+  seconds: number;
+};
+
+export type ProjectSnapshot = {
+  scenes: Scene[];
+  canvasPreset: CanvasPreset;
+  fps: number;
+  exportFormat: ExportFormat;
+  captionStyle: CaptionStyle;
+  fonts: ProjectFont[];
+  watermark?: ImageLayer;
+  music?: MusicBed;
+  /** Title cards rendered before the first scene and after the last one. */
+  intro?: Scene;
+  outro?: Scene;
+  chrome?: OnScreenChrome;
+};
+
+/** Project-wide settings that undo and redo restore along with the scenes. */
+export type ProjectSettings = Pick<
+  ProjectSnapshot,
+  "captionStyle" | "watermark" | "music" | "intro" | "outro"
+> & {
+  chrome: OnScreenChrome;
+};
+
+/** Non-destructive edits over the scene audio; times are in source seconds. */
+export type AudioEdit = {
+  trimStart: number;
+  trimEnd: number;
+  fadeIn: number;
+  fadeOut: number;
+  gainDb: number;
+};
+
+/**
+ * Text-to-speech settings for a scene. `generatedKey` identifies the text and
+ * settings behind the current audio, and is cleared when audio is replaced by hand.
+ */
+export type SceneNarration = {
+  provider: string;
+  voice: string;
+  rate: number;
+  pitch: number;
+  generatedKey?: string;
+};
+
+export type ClipAudioMode = "keep" | "mute" | "duck";
+
+/** A video file used as the scene's visual source; times are in clip seconds. */
+export type SceneClip = {
+  name: string;
+  type: string;
+  /** The video file in the asset store. */
+  assetId: string;
+  duration: number;
+  trimStart: number;
+  trimEnd: number;
+  loop: boolean;
+  audio: ClipAudioMode;
+};
+
+/** Project-wide background music; `offset` is where playback starts in the track. */
+export type MusicBed = {
+  name: string;
+  type: string;
+  /** The track in the asset store. */
+  assetId: string;
+  duration: number;
+  volume: number;
+  fadeIn: number;
+  fadeOut: number;
+  offset: number;
+  loop: boolean;
+  duckLevel: number;
+};
+
+export type CropRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type MotionEasing = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+export type SceneMotion = {
+  start: CropRect;
+  end: CropRect;
+  easing: MotionEasing;
+};
+
+export type TransitionType =
+  | "none"
+  | "crossfade"
+  | "slideLeft"
+  | "slideRight"
+  | "wipe"
+  | "zoom"
+  | "dipToColor";
+
+export type SceneTransition = {
+  type: TransitionType;
+  duration: number;
+  color: string;
+};
+
+export type SubtitleCue = {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type CaptionPosition = "top" | "middle" | "bottom" | "custom";
+
+export type CaptionBackground = "gradient" | "box" | "none";
+
+export type CaptionStyle = {
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  color: string;
+  strokeColor: string;
+  strokeWidth: number;
+  shadowColor: string;
+  shadowBlur: number;
+  background: CaptionBackground;
+  backgroundColor: string;
+  backgroundOpacity: number;
+  align: CanvasTextAlign;
+  position: CaptionPosition;
+  offsetY: number;
+};
+
+export type CaptionTemplate = {
+  id: string;
+  name: string;
+  style: CaptionStyle;
+};
+
+export type ProjectFont = {
+  id: string;
+  family: string;
+  fileName: string;
+  type: string;
+  /** The font file in the asset store. */
+  assetId: string;
+};
+
+type LayerBase = {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  scale: number;
+  rotation: number;
+  opacity: number;
+  z: number;
+  enter: number;
+  exit?: number;
+};
+
+export type ImageLayer = LayerBase & {
+  kind: "image";
+  /** Image in the asset store. */
+  imageAssetId: string;
+  imageName?: string;
+  aspect: number;
+};
+
+export type TextLayer = LayerBase & {
+  kind: "text";
+  text: string;
+  color: string;
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+};
+
+export type ShapeLayer = LayerBase & {
+  kind: "shape";
+  shape: "rect" | "ellipse";
+  color: string;
+  aspect: number;
+};
+
+export type SceneLayer = ImageLayer | TextLayer | ShapeLayer;